@@ -0,0 +1,197 @@
+import type { Expression } from '@zenstackhq/orm/schema';
+
+/**
+ * What a `decryptFor` expression is evaluated against
+ */
+export type AccessScope = {
+    /**
+     * The auth context of the client (`auth()`)
+     */
+    auth: unknown;
+
+    /**
+     * The row the value was read from, for field references
+     */
+    row: Record<string, unknown>;
+};
+
+// `undefined` stands for a missing value (an unset `auth()` member or a field
+// that wasn't read); comparing with it is unknown, also returned as `undefined`
+function isEqual(left: unknown, right: unknown): boolean | undefined {
+    if (left === undefined || right === undefined) {
+        return undefined;
+    }
+    if (left instanceof Date && right instanceof Date) {
+        return left.getTime() === right.getTime();
+    }
+    return left === right;
+}
+
+function compare(op: '<' | '<=' | '>' | '>=', left: unknown, right: unknown): boolean | undefined {
+    if (left === undefined || right === undefined) {
+        return undefined;
+    }
+    const toComparable = (value: unknown) => (value instanceof Date ? value.getTime() : value);
+    const l = toComparable(left);
+    const r = toComparable(right);
+    if (!(typeof l === 'number' && typeof r === 'number') && !(typeof l === 'string' && typeof r === 'string')) {
+        return false;
+    }
+    switch (op) {
+        case '<':
+            return l < r;
+        case '<=':
+            return l <= r;
+        case '>':
+            return l > r;
+        case '>=':
+            return l >= r;
+    }
+}
+
+function callFunction(name: string, args: unknown[]): boolean | undefined {
+    const [target, operand] = args;
+    if (target === undefined || (args.length > 1 && operand === undefined)) {
+        return undefined;
+    }
+    switch (name) {
+        case 'has':
+            return Array.isArray(target) && target.some((item) => isEqual(item, operand) === true);
+        case 'hasSome':
+            return Array.isArray(target) && Array.isArray(operand) && operand.some((item) => target.includes(item));
+        case 'hasEvery':
+            return Array.isArray(target) && Array.isArray(operand) && operand.every((item) => target.includes(item));
+        case 'isEmpty':
+            return Array.isArray(target) && target.length === 0;
+        case 'contains':
+            return typeof target === 'string' && typeof operand === 'string' && target.includes(operand);
+        case 'startsWith':
+            return typeof target === 'string' && typeof operand === 'string' && target.startsWith(operand);
+        case 'endsWith':
+            return typeof target === 'string' && typeof operand === 'string' && target.endsWith(operand);
+        default:
+            throw new Error(`Unsupported function "${name}" in decryptFor`);
+    }
+}
+
+function and(left: unknown, right: unknown): boolean | undefined {
+    if ((left !== undefined && left !== true) || (right !== undefined && right !== true)) {
+        return false;
+    }
+    return left === true && right === true ? true : undefined;
+}
+
+function or(left: unknown, right: unknown): boolean | undefined {
+    if (left === true || right === true) {
+        return true;
+    }
+    return left === undefined || right === undefined ? undefined : false;
+}
+
+/**
+ * Evaluate a `decryptFor` expression, e.g. `auth().role == 'ADMIN'` or
+ * `auth().id == ownerId`. Supports `auth()`, member access, field references,
+ * literals, logical and comparison operators, `in`, and the `has`, `hasSome`,
+ * `hasEvery`, `isEmpty`, `contains`, `startsWith` and `endsWith` functions.
+ * A missing value (an `auth()` member that isn't set, or a field that wasn't
+ * read) makes a comparison unknown rather than null, and an unknown result
+ * denies access; `auth()` itself is null without an auth context.
+ */
+export function evaluateAccessExpression(expr: Expression, scope: AccessScope): unknown {
+    const evaluate = (e: Expression) => evaluateAccessExpression(e, scope);
+
+    switch (expr.kind) {
+        case 'literal':
+            return expr.value;
+        case 'null':
+            return null;
+        case 'array':
+            return expr.items.map(evaluate);
+        case 'this':
+            return scope.row;
+        case 'field':
+            return scope.row[expr.field];
+        case 'member': {
+            let value = evaluate(expr.receiver);
+            for (const member of expr.members) {
+                const isRecord = typeof value === 'object' && value !== null;
+                value = isRecord ? (value as Record<string, unknown>)[member] : undefined;
+            }
+            return value;
+        }
+        case 'call':
+            if (expr.function === 'auth') {
+                return scope.auth ?? null;
+            }
+            return callFunction(expr.function, (expr.args ?? []).map(evaluate));
+        case 'unary': {
+            const operand = evaluate(expr.operand);
+            return operand === undefined ? undefined : operand !== true;
+        }
+        case 'binary':
+            switch (expr.op) {
+                case '&&':
+                    return and(evaluate(expr.left), evaluate(expr.right));
+                case '||':
+                    return or(evaluate(expr.left), evaluate(expr.right));
+                case '==':
+                    return isEqual(evaluate(expr.left), evaluate(expr.right));
+                case '!=': {
+                    const equal = isEqual(evaluate(expr.left), evaluate(expr.right));
+                    return equal === undefined ? undefined : !equal;
+                }
+                case '<':
+                case '<=':
+                case '>':
+                case '>=':
+                    return compare(expr.op, evaluate(expr.left), evaluate(expr.right));
+                case 'in': {
+                    const list = evaluate(expr.right);
+                    const value = evaluate(expr.left);
+                    if (list === undefined || value === undefined) {
+                        return undefined;
+                    }
+                    return Array.isArray(list) && list.some((item) => isEqual(item, value) === true);
+                }
+                default:
+                    throw new Error(`Unsupported operator "${expr.op}" in decryptFor`);
+            }
+        default:
+            throw new Error(`Unsupported expression "${expr.kind}" in decryptFor`);
+    }
+}
+
+/**
+ * Collect the names of the row fields a `decryptFor` expression refers to
+ */
+export function getReferencedFields(expr: Expression): string[] {
+    switch (expr.kind) {
+        case 'field':
+            return [expr.field];
+        case 'member':
+            return getReferencedFields(expr.receiver);
+        case 'array':
+            return expr.items.flatMap(getReferencedFields);
+        case 'call':
+            return (expr.args ?? []).flatMap(getReferencedFields);
+        case 'unary':
+            return getReferencedFields(expr.operand);
+        case 'binary':
+            return [...getReferencedFields(expr.left), ...getReferencedFields(expr.right)];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Mask a value with a pattern, replacing `{lastN}` and `{firstN}` with that many
+ * characters of the value (e.g. `'***-**-{last4}'`). Values other than strings
+ * and numbers reveal nothing.
+ */
+export function applyMask(pattern: string, value: unknown): string {
+    const text = ['string', 'number', 'bigint'].includes(typeof value) ? String(value) : '';
+    return pattern.replace(/\{(first|last)(\d+)\}/g, (_, end: string, count: string) => {
+        const length = Math.min(Number(count), text.length);
+        return end === 'first' ? text.slice(0, length) : text.slice(text.length - length);
+    });
+}
@@ -0,0 +1,318 @@
+import { loadNodeCrypto } from './node-crypto.js';
+
+/**
+ * An authenticated cipher that values can be encrypted with
+ */
+export interface CipherAlgorithm {
+    /**
+     * Name used in configuration (`algorithm`, `@encrypted(algorithm: ...)`) and v1 metadata
+     */
+    name: string;
+
+    /**
+     * Id recorded in the v2 binary header, from 1 to 255
+     */
+    id: number;
+
+    /**
+     * Size of the key in bytes
+     */
+    keyBytes: number;
+
+    /**
+     * Size of the IV (nonce) in bytes
+     */
+    ivBytes: number;
+
+    /**
+     * Encrypts and authenticates a plaintext (and associated data)
+     * @returns The ciphertext, including the authentication tag
+     */
+    encrypt(key: Uint8Array, iv: Uint8Array, plain: Uint8Array, associatedData?: Uint8Array): Promise<Uint8Array>;
+
+    /**
+     * Authenticates and decrypts a ciphertext returned by `encrypt`, throwing if it was tampered with
+     * @returns The plaintext
+     */
+    decrypt(key: Uint8Array, iv: Uint8Array, cipher: Uint8Array, associatedData?: Uint8Array): Promise<Uint8Array>;
+}
+
+const TAG_BYTES = 16;
+const encoder = new TextEncoder();
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        bytes.set(part, offset);
+        offset += part.length;
+    }
+    return bytes;
+}
+
+// AES-GCM keys imported into WebCrypto, by raw key
+const aesGcmKeys = new WeakMap<Uint8Array, Promise<CryptoKey>>();
+
+function importAesGcmKey(key: Uint8Array): Promise<CryptoKey> {
+    let cryptoKey = aesGcmKeys.get(key);
+    if (!cryptoKey) {
+        cryptoKey = crypto.subtle.importKey('raw', toArrayBuffer(key), 'AES-GCM', false, ['encrypt', 'decrypt']);
+        aesGcmKeys.set(key, cryptoKey);
+    }
+    return cryptoKey;
+}
+
+function aesGcmParams(iv: Uint8Array, associatedData: Uint8Array | undefined): AesGcmParams {
+    return {
+        name: 'AES-GCM',
+        iv: toArrayBuffer(iv),
+        ...(associatedData && { additionalData: toArrayBuffer(associatedData) }),
+    };
+}
+
+const aesGcm: CipherAlgorithm = {
+    name: 'AES-GCM',
+    id: 1,
+    keyBytes: 32,
+    ivBytes: 12,
+    async encrypt(key, iv, plain, associatedData) {
+        const params = aesGcmParams(iv, associatedData);
+        return new Uint8Array(await crypto.subtle.encrypt(params, await importAesGcmKey(key), toArrayBuffer(plain)));
+    },
+    async decrypt(key, iv, cipher, associatedData) {
+        const params = aesGcmParams(iv, associatedData);
+        return new Uint8Array(await crypto.subtle.decrypt(params, await importAesGcmKey(key), toArrayBuffer(cipher)));
+    },
+};
+
+/**
+ * AES-GCM with an IV synthesized from the plaintext (deterministic encryption).
+ * Decryption is plain AES-GCM; only how the IV was chosen differs.
+ */
+const aesGcmSiv: CipherAlgorithm = { ...aesGcm, name: 'AES-GCM-HMAC-SIV', id: 2 };
+
+async function chacha20Poly1305Encrypt(
+    name: string,
+    key: Uint8Array,
+    nonce: Uint8Array,
+    plain: Uint8Array,
+    associatedData: Uint8Array | undefined,
+): Promise<Uint8Array> {
+    const cipher = (await loadNodeCrypto(name)).createCipheriv('chacha20-poly1305', key, nonce, {
+        authTagLength: TAG_BYTES,
+    });
+    if (associatedData) cipher.setAAD(associatedData);
+    return concatBytes([cipher.update(plain), cipher.final(), cipher.getAuthTag()]);
+}
+
+async function chacha20Poly1305Decrypt(
+    name: string,
+    key: Uint8Array,
+    nonce: Uint8Array,
+    cipher: Uint8Array,
+    associatedData: Uint8Array | undefined,
+): Promise<Uint8Array> {
+    if (cipher.length < TAG_BYTES) {
+        throw new Error('Ciphertext is too short');
+    }
+    const decipher = (await loadNodeCrypto(name)).createDecipheriv('chacha20-poly1305', key, nonce, {
+        authTagLength: TAG_BYTES,
+    });
+    if (associatedData) decipher.setAAD(associatedData);
+    decipher.setAuthTag(cipher.subarray(cipher.length - TAG_BYTES));
+    return concatBytes([decipher.update(cipher.subarray(0, cipher.length - TAG_BYTES)), decipher.final()]);
+}
+
+const chacha20Poly1305: CipherAlgorithm = {
+    name: 'ChaCha20-Poly1305',
+    id: 3,
+    keyBytes: 32,
+    ivBytes: 12,
+    encrypt(key, iv, plain, associatedData) {
+        return chacha20Poly1305Encrypt(this.name, key, iv, plain, associatedData);
+    },
+    decrypt(key, iv, cipher, associatedData) {
+        return chacha20Poly1305Decrypt(this.name, key, iv, cipher, associatedData);
+    },
+};
+
+/**
+ * HChaCha20: derives a subkey from a key and the first 16 bytes of an XChaCha20 nonce
+ */
+export function hchacha20(key: Uint8Array, nonce: Uint8Array): Uint8Array {
+    const keyView = new DataView(key.buffer, key.byteOffset, key.byteLength);
+    const nonceView = new DataView(nonce.buffer, nonce.byteOffset, nonce.byteLength);
+    const state = new Uint32Array(16);
+    // "expand 32-byte k"
+    state.set([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]);
+    for (let i = 0; i < 8; i++) state[4 + i] = keyView.getUint32(i * 4, true);
+    for (let i = 0; i < 4; i++) state[12 + i] = nonceView.getUint32(i * 4, true);
+
+    const rotl = (value: number, bits: number) => (value << bits) | (value >>> (32 - bits));
+    const quarterRound = (a: number, b: number, c: number, d: number) => {
+        state[a] = state[a]! + state[b]!;
+        state[d] = rotl(state[d]! ^ state[a]!, 16);
+        state[c] = state[c]! + state[d]!;
+        state[b] = rotl(state[b]! ^ state[c]!, 12);
+        state[a] = state[a]! + state[b]!;
+        state[d] = rotl(state[d]! ^ state[a]!, 8);
+        state[c] = state[c]! + state[d]!;
+        state[b] = rotl(state[b]! ^ state[c]!, 7);
+    };
+    for (let round = 0; round < 10; round++) {
+        quarterRound(0, 4, 8, 12);
+        quarterRound(1, 5, 9, 13);
+        quarterRound(2, 6, 10, 14);
+        quarterRound(3, 7, 11, 15);
+        quarterRound(0, 5, 10, 15);
+        quarterRound(1, 6, 11, 12);
+        quarterRound(2, 7, 8, 13);
+        quarterRound(3, 4, 9, 14);
+    }
+
+    const subkey = new Uint8Array(32);
+    const subkeyView = new DataView(subkey.buffer);
+    [0, 1, 2, 3, 12, 13, 14, 15].forEach((word, i) => subkeyView.setUint32(i * 4, state[word]!, true));
+    return subkey;
+}
+
+/**
+ * XChaCha20-Poly1305: ChaCha20-Poly1305 under an HChaCha20 subkey, with a 24-byte
+ * nonce that is safe to choose at random
+ */
+function xchachaParams(key: Uint8Array, iv: Uint8Array): { subkey: Uint8Array; nonce: Uint8Array } {
+    const nonce = new Uint8Array(12);
+    nonce.set(iv.subarray(16, 24), 4);
+    return { subkey: hchacha20(key, iv.subarray(0, 16)), nonce };
+}
+
+const xchacha20Poly1305: CipherAlgorithm = {
+    name: 'XChaCha20-Poly1305',
+    id: 4,
+    keyBytes: 32,
+    ivBytes: 24,
+    encrypt(key, iv, plain, associatedData) {
+        const { subkey, nonce } = xchachaParams(key, iv);
+        return chacha20Poly1305Encrypt(this.name, subkey, nonce, plain, associatedData);
+    },
+    decrypt(key, iv, cipher, associatedData) {
+        const { subkey, nonce } = xchachaParams(key, iv);
+        return chacha20Poly1305Decrypt(this.name, subkey, nonce, cipher, associatedData);
+    },
+};
+
+// AES-CBC encryption and HMAC keys derived from a raw key, by raw key
+const cbcHmacKeys = new WeakMap<Uint8Array, Promise<{ encKey: CryptoKey; macKey: CryptoKey }>>();
+
+function importCbcHmacKeys(key: Uint8Array): Promise<{ encKey: CryptoKey; macKey: CryptoKey }> {
+    let keys = cbcHmacKeys.get(key);
+    if (!keys) {
+        keys = (async () => {
+            const hmac = { name: 'HMAC', hash: 'SHA-256' };
+            const master = await crypto.subtle.importKey('raw', toArrayBuffer(key), hmac, false, ['sign']);
+            const derive = async (label: string) =>
+                crypto.subtle.sign('HMAC', master, encoder.encode(`zenstack-encryption:aes-cbc-hmac:${label}`));
+            return {
+                encKey: await crypto.subtle.importKey('raw', await derive('enc'), 'AES-CBC', false, [
+                    'encrypt',
+                    'decrypt',
+                ]),
+                macKey: await crypto.subtle.importKey('raw', await derive('mac'), hmac, false, ['sign', 'verify']),
+            };
+        })();
+        cbcHmacKeys.set(key, keys);
+    }
+    return keys;
+}
+
+/**
+ * Input to the HMAC of AES-CBC-HMAC-SHA256: length-prefixed associated data, IV and ciphertext
+ */
+function cbcMacInput(iv: Uint8Array, cipher: Uint8Array, associatedData: Uint8Array | undefined): ArrayBuffer {
+    const length = new Uint8Array(8);
+    new DataView(length.buffer).setUint32(4, associatedData?.length ?? 0);
+    return toArrayBuffer(concatBytes([length, associatedData ?? new Uint8Array(), iv, cipher]));
+}
+
+/**
+ * AES-256-CBC with HMAC-SHA256 (encrypt-then-MAC), for policies that exclude GCM.
+ * Encryption and HMAC keys are derived from the key.
+ */
+const aesCbcHmac: CipherAlgorithm = {
+    name: 'AES-CBC-HMAC-SHA256',
+    id: 5,
+    keyBytes: 32,
+    ivBytes: 16,
+    async encrypt(key, iv, plain, associatedData) {
+        const { encKey, macKey } = await importCbcHmacKeys(key);
+        const cipher = new Uint8Array(
+            await crypto.subtle.encrypt({ name: 'AES-CBC', iv: toArrayBuffer(iv) }, encKey, toArrayBuffer(plain)),
+        );
+        const tag = new Uint8Array(await crypto.subtle.sign('HMAC', macKey, cbcMacInput(iv, cipher, associatedData)));
+        return concatBytes([cipher, tag]);
+    },
+    async decrypt(key, iv, data, associatedData) {
+        const { encKey, macKey } = await importCbcHmacKeys(key);
+        const macBytes = 32;
+        const cipher = data.subarray(0, data.length - macBytes);
+        const tag = data.subarray(data.length - macBytes);
+        const mac = cbcMacInput(iv, cipher, associatedData);
+        if (data.length < macBytes || !(await crypto.subtle.verify('HMAC', macKey, toArrayBuffer(tag), mac))) {
+            throw new Error('Authentication failed');
+        }
+        return new Uint8Array(
+            await crypto.subtle.decrypt({ name: 'AES-CBC', iv: toArrayBuffer(iv) }, encKey, toArrayBuffer(cipher)),
+        );
+    },
+};
+
+const algorithmsByName = new Map<string, CipherAlgorithm>();
+const algorithmsById = new Map<number, CipherAlgorithm>();
+
+/**
+ * Registers a cipher, making it available by name in configuration and by id
+ * when decrypting. Names and ids must be unique.
+ */
+export function registerAlgorithm(algorithm: CipherAlgorithm): void {
+    if (!Number.isInteger(algorithm.id) || algorithm.id < 1 || algorithm.id > 255) {
+        throw new Error(`Algorithm id must be an integer from 1 to 255, got ${algorithm.id}`);
+    }
+    if (algorithmsByName.has(algorithm.name)) {
+        throw new Error(`Algorithm "${algorithm.name}" is already registered`);
+    }
+    if (algorithmsById.has(algorithm.id)) {
+        throw new Error(`Algorithm id ${algorithm.id} is already used by "${algorithmsById.get(algorithm.id)!.name}"`);
+    }
+    algorithmsByName.set(algorithm.name, algorithm);
+    algorithmsById.set(algorithm.id, algorithm);
+}
+
+for (const algorithm of [aesGcm, aesGcmSiv, chacha20Poly1305, xchacha20Poly1305, aesCbcHmac]) {
+    registerAlgorithm(algorithm);
+}
+
+/**
+ * Get a registered cipher by name, throwing if it is unknown
+ */
+export function getAlgorithm(name: string): CipherAlgorithm {
+    const algorithm = algorithmsByName.get(name);
+    if (!algorithm) {
+        throw new Error(`Unknown encryption algorithm "${name}"`);
+    }
+    return algorithm;
+}
+
+/**
+ * Get a registered cipher by its v2 header id, throwing if it is unknown
+ */
+export function getAlgorithmById(id: number): CipherAlgorithm {
+    const algorithm = algorithmsById.get(id);
+    if (!algorithm) {
+        throw new Error(`Unknown encryption algorithm id ${id}`);
+    }
+    return algorithm;
+}
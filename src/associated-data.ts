@@ -0,0 +1,35 @@
+import type { ModelDef } from '@zenstackhq/orm/schema';
+
+/**
+ * What an encrypted value is bound to:
+ * - `'field'`: the model and field, so it can't be moved to another column
+ * - `'row'`: the model, field and the row's id, so it can't be moved to another row either
+ */
+export type AssociatedDataScheme = 'field' | 'row';
+
+const encoder = new TextEncoder();
+
+/**
+ * Get the id values of a row, or undefined if they aren't all known. Compound
+ * ids may also be given in their unique input form (`{ a_b: { a, b } }`).
+ */
+export function getRowIds(model: ModelDef, row: Record<string, unknown>): unknown[] | undefined {
+    const compound = row[model.idFields.join('_')];
+    const source =
+        model.idFields.length > 1 && typeof compound === 'object' && compound !== null
+            ? (compound as Record<string, unknown>)
+            : row;
+
+    const ids = model.idFields.map((field) => source[field]);
+    return ids.every((id) => id !== undefined && id !== null && (typeof id !== 'object' || id instanceof Date))
+        ? ids
+        : undefined;
+}
+
+/**
+ * Encode the associated data binding a value to a field, and to a row if ids are given
+ */
+export function encodeAssociatedData(model: string, field: string, ids?: unknown[]): Uint8Array {
+    const parts = [model, field, ...(ids ?? []).map((id) => (id instanceof Date ? id.toISOString() : String(id)))];
+    return encoder.encode(JSON.stringify(parts));
+}
@@ -0,0 +1,54 @@
+import type { EncryptionAuditEvent } from './types.js';
+
+type NodeFs = {
+    appendFile(path: string, data: string): Promise<void>;
+};
+
+/**
+ * Audit sink keeping events in memory, for tests and debugging.
+ * Pass `sink.record` as the `onEncrypt` and `onDecrypt` hooks.
+ */
+export class MemoryAuditSink {
+    readonly events: EncryptionAuditEvent[] = [];
+
+    record = (event: EncryptionAuditEvent): void => {
+        this.events.push(event);
+    };
+
+    clear(): void {
+        this.events.length = 0;
+    }
+}
+
+/**
+ * Audit sink appending events to a file as JSON lines. Requires Node.js.
+ * Pass `sink.record` as the `onEncrypt` and `onDecrypt` hooks.
+ */
+export class FileAuditSink {
+    private pending: Promise<void> = Promise.resolve();
+    private fs: Promise<NodeFs> | undefined;
+
+    /**
+     * @param path The file to append to, created if missing
+     */
+    constructor(private readonly path: string) {}
+
+    record = (event: EncryptionAuditEvent): Promise<void> => {
+        const line = JSON.stringify(event, (_, value: unknown) =>
+            typeof value === 'bigint' ? value.toString() : value,
+        );
+        // append in order, one line at a time
+        const write = this.pending.then(async () => (await this.loadFs()).appendFile(this.path, `${line}\n`));
+        this.pending = write.catch(() => {});
+        return write;
+    };
+
+    private loadFs(): Promise<NodeFs> {
+        if (!this.fs) {
+            // a variable specifier keeps bundlers from resolving it for non-Node targets
+            const specifier = 'node:fs/promises';
+            this.fs = import(specifier) as Promise<NodeFs>;
+        }
+        return this.fs;
+    }
+}
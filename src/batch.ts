@@ -0,0 +1,49 @@
+/**
+ * Run tasks with at most `limit` of them in flight, failing with the first error
+ */
+export async function runConcurrently(tasks: (() => Promise<void>)[], limit: number): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < tasks.length) {
+            await tasks[next++]!();
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+}
+
+/**
+ * Collects items added in the same turn of the event loop and processes them
+ * with a single call, e.g. to a remote service
+ */
+export class Batcher<I, O> {
+    private queue: { item: I; resolve: (result: O) => void; reject: (error: unknown) => void }[] = [];
+
+    /**
+     * @param run Processes a batch, returning a result per item in the same order
+     */
+    constructor(private readonly run: (items: I[]) => Promise<O[]>) {}
+
+    add(item: I): Promise<O> {
+        return new Promise((resolve, reject) => {
+            this.queue.push({ item, resolve, reject });
+            if (this.queue.length === 1) {
+                // flush once the callers waiting on microtasks have added their items
+                setTimeout(() => void this.flush(), 0);
+            }
+        });
+    }
+
+    private async flush(): Promise<void> {
+        const batch = this.queue;
+        this.queue = [];
+        try {
+            const results = await this.run(batch.map(({ item }) => item));
+            if (results.length !== batch.length) {
+                throw new Error(`Batch of ${batch.length} items returned ${results.length} results`);
+            }
+            batch.forEach(({ resolve }, i) => resolve(results[i] as O));
+        } catch (error) {
+            batch.forEach(({ reject }) => reject(error));
+        }
+    }
+}
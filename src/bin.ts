@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+import { runCli } from './cli.js';
+
+type NodeProcess = {
+    argv: string[];
+    exitCode?: number;
+    cwd(): string;
+    stdout: { write(text: string): void };
+    stderr: { write(text: string): void };
+};
+
+const { process } = globalThis as unknown as { process: NodeProcess };
+
+void runCli(process.argv.slice(2), {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    cwd: process.cwd(),
+}).then((code) => {
+    process.exitCode = code;
+});
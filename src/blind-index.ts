@@ -0,0 +1,31 @@
+import { ENCRYPTION_KEY_BYTES, loadHmacKey } from './utils.js';
+
+const encoder = new TextEncoder();
+
+/**
+ * Computes HMAC-SHA256 blind indexes for searchable encrypted fields.
+ *
+ * The index is keyed and scoped to `model.field`, so equal plaintexts produce
+ * equal indexes within a field but cannot be correlated across fields.
+ */
+export class BlindIndexer {
+    private key: CryptoKey | undefined;
+
+    constructor(private readonly indexKey: Uint8Array) {
+        if (indexKey.length !== ENCRYPTION_KEY_BYTES) {
+            throw new Error(`Blind index key must be ${ENCRYPTION_KEY_BYTES} bytes`);
+        }
+    }
+
+    /**
+     * Computes the blind index of a plaintext value as a hex string
+     */
+    async compute(model: string, field: string, value: string): Promise<string> {
+        if (!this.key) {
+            this.key = await loadHmacKey(this.indexKey);
+        }
+
+        const mac = await crypto.subtle.sign('HMAC', this.key, encoder.encode(`${model}.${field}\u0000${value}`));
+        return new Uint8Array(mac).reduce((acc, byte) => acc + byte.toString(16).padStart(2, '0'), '');
+    }
+}
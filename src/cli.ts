@@ -0,0 +1,360 @@
+import type { SchemaDef } from '@zenstackhq/orm/schema';
+import { encodeAssociatedData } from './associated-data.js';
+import { Decrypter } from './decrypter.js';
+import { Encrypter } from './encrypter.js';
+import { EnvelopeCipher } from './envelope.js';
+import { SchemaValidationError } from './errors.js';
+import type { KeyDerivation } from './kdf.js';
+import { LocalKeyProvider } from './key-provider.js';
+import { scanEncryptedValues } from './scan.js';
+import type { AssociatedData, AssociatedDataResolver } from './utils.js';
+import { deriveKey, ENCRYPTION_KEY_BYTES, fromBase64, getKeyDigest, readEncryptionMeta, toBase64 } from './utils.js';
+import { validateEncryptedSchema } from './validation.js';
+
+/**
+ * Where the CLI writes its output and resolves relative paths
+ */
+export type CliIo = {
+    stdout(text: string): void;
+    stderr(text: string): void;
+    cwd: string;
+};
+
+type NodeFs = {
+    readFile(path: string, encoding: 'utf8'): Promise<string>;
+};
+
+type NodePath = {
+    resolve(...paths: string[]): string;
+};
+
+type NodeUrl = {
+    pathToFileURL(path: string): { href: string };
+};
+
+type ParsedArgs = {
+    positionals: string[];
+    options: Record<string, string[]>;
+    flags: Set<string>;
+};
+
+const USAGE = `Usage: zenstack-encryption <command> [options]
+
+Commands:
+  generate-key [--format base64|hex]     Generate a random ${ENCRYPTION_KEY_BYTES}-byte key
+  key-digest --key <key>                 Print the digest identifying a key in encrypted data
+  inspect <value>                        Print the metadata of an encrypted value
+  encrypt <plaintext> --key <key>        Encrypt a value
+  decrypt <value> --key <key>...         Decrypt a value
+  scan --client <module>                 Count the encrypted values in a database per key
+  validate --schema <module>             Check how a schema uses @encrypted
+
+Keys:
+  --key <secret>                         A secret string, derived with --kdf (SHA-256 by default)
+  --key hex:<key> | base64:<key>         A raw ${ENCRYPTION_KEY_BYTES}-byte key
+  --kdf <json>                           Key derivation for secret strings, e.g. '{"algorithm":"hkdf"}'
+  --keyring <file>                       A JSON keyring for envelope encryption (instead of or with --key)
+
+Encrypt and decrypt options:
+  --model <name> --field <name>          Model and field the value is stored in and bound to
+  --id <value>...                        Row id(s) the value is bound to
+  --algorithm <name>                     Cipher to encrypt with
+  --deterministic                        Encrypt equal values to equal ciphertexts
+  --subkey <label>                       Encrypt under a subkey, e.g. User.ssn
+
+Scan options:
+  --client <module>                      Module exporting a ZenStack client as \`client\` or default
+  --model <name>...                      Models to scan, defaults to every model with encrypted fields
+  --batch-size <n>                       Rows read per query, defaults to 100
+
+Validate options:
+  --schema <module>                      Module exporting a ZenStack schema as \`schema\` or default
+  --key-id <id>...                       Key ids fields may select with @encrypted(keyId: ...)
+`;
+
+const FLAGS = new Set(['deterministic', 'help']);
+
+/**
+ * Run the `zenstack-encryption` command line tool
+ * @param args The arguments, without the node and script paths
+ * @param io Output streams and working directory
+ * @returns The exit code
+ */
+export async function runCli(args: string[], io: CliIo): Promise<number> {
+    let parsed: ParsedArgs;
+    try {
+        parsed = parseArgs(args);
+    } catch (error) {
+        io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+        return 1;
+    }
+
+    const [command, ...positionals] = parsed.positionals;
+    if (command === undefined || command === 'help' || parsed.flags.has('help')) {
+        io.stdout(USAGE);
+        return 0;
+    }
+
+    try {
+        const output = await runCommand(command, { ...parsed, positionals }, io);
+        io.stdout(`${output}\n`);
+        return 0;
+    } catch (error) {
+        io.stderr(`Error: ${(error as Error).message}\n`);
+        return 1;
+    }
+}
+
+async function runCommand(command: string, args: ParsedArgs, io: CliIo): Promise<string> {
+    switch (command) {
+        case 'generate-key': {
+            const format = getOption(args, 'format') ?? 'base64';
+            const key = crypto.getRandomValues(new Uint8Array(ENCRYPTION_KEY_BYTES));
+            if (format === 'hex') return toHex(key);
+            if (format === 'base64') return toBase64(key);
+            throw new Error(`Unknown key format "${format}", expected base64 or hex`);
+        }
+
+        case 'key-digest': {
+            const [key, ...others] = await getKeys(args);
+            if (!key || others.length > 0) {
+                throw new Error('Exactly one --key is required');
+            }
+            return getKeyDigest(key);
+        }
+
+        case 'inspect': {
+            const meta = readEncryptionMeta(getPositional(args, 'value'));
+            return JSON.stringify(
+                {
+                    version: meta.v,
+                    algorithm: meta.a,
+                    keyId: meta.k,
+                    type: meta.t,
+                    wrappedKey: meta.w !== undefined,
+                    associatedData: meta.d,
+                    subkey: meta.s,
+                },
+                null,
+                2,
+            );
+        }
+
+        case 'encrypt': {
+            const plaintext = getPositional(args, 'plaintext');
+            const associatedData = getAssociatedData(args);
+            const keyring = getOption(args, 'keyring');
+            if (keyring !== undefined) {
+                const cipher = new EnvelopeCipher(LocalKeyProvider.fromJSON(await readFile(keyring, io)));
+                return cipher.encrypt(plaintext, { algorithm: getOption(args, 'algorithm'), associatedData });
+            }
+
+            const [key, ...others] = await getKeys(args);
+            if (!key || others.length > 0) {
+                throw new Error('Exactly one --key or a --keyring is required');
+            }
+            const binding = getBinding(args);
+            return new Encrypter(key).encrypt(plaintext, {
+                algorithm: getOption(args, 'algorithm'),
+                deterministic: args.flags.has('deterministic'),
+                field: binding && `${binding.model}.${binding.field}`,
+                subkey: getOption(args, 'subkey'),
+                associatedData,
+            });
+        }
+
+        case 'decrypt': {
+            const value = getPositional(args, 'value');
+            const keys = await getKeys(args);
+            const decrypter = keys.length > 0 ? new Decrypter(keys) : undefined;
+            const resolver = getAssociatedDataResolver(args);
+            const keyring = getOption(args, 'keyring');
+            if (keyring !== undefined) {
+                const provider = LocalKeyProvider.fromJSON(await readFile(keyring, io));
+                return new EnvelopeCipher(provider, { legacyDecrypter: decrypter }).decrypt(value, resolver);
+            }
+            if (!decrypter) {
+                throw new Error('At least one --key or a --keyring is required');
+            }
+            return decrypter.decrypt(value, resolver);
+        }
+
+        case 'scan': {
+            const path = getOption(args, 'client');
+            if (path === undefined) {
+                throw new Error('--client is required');
+            }
+            const batchSize = getOption(args, 'batch-size');
+            if (batchSize !== undefined && !/^[1-9]\d*$/.test(batchSize)) {
+                throw new Error('--batch-size must be a positive integer');
+            }
+            const client = (await importExport(path, 'client', '$schema', io)) as { $disconnect?: () => Promise<void> };
+            try {
+                const result = await scanEncryptedValues(client, {
+                    models: args.options['model'],
+                    batchSize: batchSize === undefined ? undefined : Number(batchSize),
+                });
+                return JSON.stringify(result, null, 2);
+            } finally {
+                // pooled drivers keep the process alive until the client disconnects
+                await client.$disconnect?.();
+            }
+        }
+
+        case 'validate': {
+            const path = getOption(args, 'schema');
+            if (path === undefined) {
+                throw new Error('--schema is required');
+            }
+            const schema = await importExport(path, 'schema', 'models', io);
+            const problems = validateEncryptedSchema(schema as SchemaDef, { keyIds: args.options['key-id'] });
+            if (problems.length > 0) {
+                throw new SchemaValidationError(problems);
+            }
+            return 'The schema is valid';
+        }
+
+        default:
+            throw new Error(`Unknown command "${command}", run with --help for usage`);
+    }
+}
+
+function parseArgs(args: string[]): ParsedArgs {
+    const parsed: ParsedArgs = { positionals: [], options: {}, flags: new Set() };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]!;
+        if (arg === '--') {
+            parsed.positionals.push(...args.slice(i + 1));
+            break;
+        }
+        if (!arg.startsWith('--')) {
+            parsed.positionals.push(arg);
+            continue;
+        }
+
+        const [name, inline] = splitOption(arg.slice(2));
+        if (FLAGS.has(name)) {
+            parsed.flags.add(name);
+            continue;
+        }
+        const value = inline ?? args[++i];
+        if (value === undefined) {
+            throw new Error(`Option --${name} requires a value`);
+        }
+        (parsed.options[name] ??= []).push(value);
+    }
+    return parsed;
+}
+
+function splitOption(option: string): [string, string | undefined] {
+    const index = option.indexOf('=');
+    return index < 0 ? [option, undefined] : [option.slice(0, index), option.slice(index + 1)];
+}
+
+function getOption(args: ParsedArgs, name: string): string | undefined {
+    const values = args.options[name];
+    if (values && values.length > 1) {
+        throw new Error(`Option --${name} can only be given once`);
+    }
+    return values?.[0];
+}
+
+function getPositional(args: ParsedArgs, name: string): string {
+    const [value, ...rest] = args.positionals;
+    if (value === undefined || rest.length > 0) {
+        throw new Error(`Expected a single <${name}> argument`);
+    }
+    return value;
+}
+
+async function getKeys(args: ParsedArgs): Promise<Uint8Array[]> {
+    const kdf = getOption(args, 'kdf');
+    const derivation = kdf === undefined ? undefined : (JSON.parse(kdf) as KeyDerivation);
+    return Promise.all((args.options['key'] ?? []).map((key) => parseKey(key, derivation)));
+}
+
+function parseKey(input: string, kdf: KeyDerivation | undefined): Promise<Uint8Array> {
+    if (input.startsWith('hex:')) {
+        return deriveKey(fromHex(input.slice('hex:'.length)));
+    }
+    if (input.startsWith('base64:')) {
+        return deriveKey(fromBase64(input.slice('base64:'.length)));
+    }
+    return deriveKey(input, kdf);
+}
+
+/**
+ * The associated data to bind a new value to: the row if ids are given, else the field
+ */
+function getAssociatedData(args: ParsedArgs): AssociatedData | undefined {
+    const binding = getBinding(args);
+    if (!binding) return undefined;
+    const { model, field, ids } = binding;
+    return ids.length > 0
+        ? { scheme: 'row', data: encodeAssociatedData(model, field, ids) }
+        : { scheme: 'field', data: encodeAssociatedData(model, field) };
+}
+
+function getAssociatedDataResolver(args: ParsedArgs): AssociatedDataResolver | undefined {
+    const binding = getBinding(args);
+    if (!binding) return undefined;
+    const { model, field, ids } = binding;
+    return (scheme) => {
+        if (scheme === 'field') return encodeAssociatedData(model, field);
+        if (scheme === 'row' && ids.length > 0) return encodeAssociatedData(model, field, ids);
+        return undefined;
+    };
+}
+
+function getBinding(args: ParsedArgs): { model: string; field: string; ids: string[] } | undefined {
+    const model = getOption(args, 'model');
+    const field = getOption(args, 'field');
+    const ids = args.options['id'] ?? [];
+    if (model === undefined && field === undefined && ids.length === 0) {
+        return undefined;
+    }
+    if (model === undefined || field === undefined) {
+        throw new Error('--model and --field are both required to bind a value');
+    }
+    // ids are bound by their string form, like the plugin does
+    return { model, field, ids };
+}
+
+function fromHex(text: string): Uint8Array {
+    if (!/^([0-9a-f]{2})*$/i.test(text)) {
+        throw new Error('Invalid hex key');
+    }
+    return Uint8Array.from(text.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// variable specifiers keep bundlers from resolving Node modules for other targets
+function importNode<T>(specifier: string): Promise<T> {
+    return import(specifier) as Promise<T>;
+}
+
+async function resolvePath(path: string, io: CliIo): Promise<string> {
+    const { resolve } = await importNode<NodePath>('node:path');
+    return resolve(io.cwd, path);
+}
+
+async function readFile(path: string, io: CliIo): Promise<string> {
+    const { readFile } = await importNode<NodeFs>('node:fs/promises');
+    return readFile(await resolvePath(path, io), 'utf8');
+}
+
+/**
+ * Import a module's named or default export, checking it has the given property
+ */
+async function importExport(path: string, name: string, property: string, io: CliIo): Promise<object> {
+    const { pathToFileURL } = await importNode<NodeUrl>('node:url');
+    const module = (await import(pathToFileURL(await resolvePath(path, io)).href)) as Record<string, unknown>;
+    const value = module[name] ?? module['default'];
+    if (typeof value !== 'object' || value === null || !(property in value)) {
+        throw new Error(`${path} must export a ZenStack ${name} as \`${name}\` or default`);
+    }
+    return value;
+}
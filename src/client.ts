@@ -0,0 +1,19 @@
+/**
+ * The model delegate methods used to read and write raw (encrypted) data
+ */
+export type ModelDelegate = {
+    findMany(args: unknown): Promise<Record<string, unknown>[]>;
+    findUnique(args: unknown): Promise<Record<string, unknown> | null>;
+    updateMany(args: unknown): Promise<{ count: number }>;
+};
+
+function lowerCaseFirst(value: string): string {
+    return value.charAt(0).toLowerCase() + value.slice(1);
+}
+
+/**
+ * Get a client's delegate for a model
+ */
+export function getModelDelegate(client: unknown, model: string): ModelDelegate {
+    return (client as Record<string, ModelDelegate>)[lowerCaseFirst(model)]!;
+}
@@ -1,10 +1,16 @@
-import { _decrypt, ENCRYPTION_KEY_BYTES, getKeyDigest, loadKey } from './utils.js';
+import type { AssociatedDataResolver } from './utils.js';
+import { _decrypt, deriveSubkey, ENCRYPTION_KEY_BYTES, FIELD_KEY_LABEL, getKeyDigest } from './utils.js';
+
+const MAX_CACHED_SUBKEYS = 1000;
 
 /**
- * Default decrypter with support for key rotation
+ * Default decrypter with support for key rotation.
+ * Keys are looked up by the key digest recorded in the encrypted data.
  */
 export class Decrypter {
-    private keys: Array<{ key: CryptoKey; digest: string }> = [];
+    private keys = new Map<string, Uint8Array[]>();
+    // subkeys derived from the keys, by key digest and subkey label
+    private subkeys = new Map<string, Promise<Uint8Array[]>>();
     private initPromise: Promise<void> | undefined;
 
     constructor(private readonly decryptionKeys: Uint8Array[]) {
@@ -20,29 +26,59 @@ export class Decrypter {
     }
 
     private async ensureKeys(): Promise<void> {
-        if (this.keys.length > 0) return;
-        if (this.initPromise) return this.initPromise;
-
-        this.initPromise = (async () => {
-            this.keys = await Promise.all(
-                this.decryptionKeys.map(async (key) => ({
-                    key: await loadKey(key, ['decrypt']),
-                    digest: await getKeyDigest(key),
-                })),
-            );
-        })();
-
+        if (!this.initPromise) {
+            this.initPromise = Promise.all(this.decryptionKeys.map((key) => this.loadKey(key))).then(() => {});
+        }
         return this.initPromise;
     }
 
+    private async loadKey(key: Uint8Array): Promise<string> {
+        const digest = await getKeyDigest(key);
+        this.keys.set(digest, [...(this.keys.get(digest) ?? []), key]);
+        return digest;
+    }
+
     /**
-     * Decrypts the given data
+     * Adds a decryption key, e.g. a tenant key resolved at runtime.
+     * Keys already known (by digest) are ignored.
      */
-    async decrypt(data: string): Promise<string> {
+    async addKey(key: Uint8Array): Promise<void> {
+        if (key.length !== ENCRYPTION_KEY_BYTES) {
+            throw new Error(`Decryption key must be ${ENCRYPTION_KEY_BYTES} bytes`);
+        }
+
         await this.ensureKeys();
+        if (!this.keys.has(await getKeyDigest(key))) {
+            await this.loadKey(key);
+        }
+    }
 
-        return _decrypt(data, async (digest) =>
-            this.keys.filter((entry) => entry.digest === digest).map((entry) => entry.key),
+    /**
+     * Decrypts the given data, resolving associated data it is bound to (if any)
+     */
+    async decrypt(data: string, getAssociatedData?: AssociatedDataResolver): Promise<string> {
+        await this.ensureKeys();
+
+        return _decrypt(
+            data,
+            async (digest, { s }) => (s === undefined ? (this.keys.get(digest) ?? []) : this.getSubkeys(digest, s)),
+            getAssociatedData,
         );
     }
+
+    private getSubkeys(digest: string, label: string): Promise<Uint8Array[]> {
+        const cacheKey = `${digest}:${label}`;
+        let subkeys = this.subkeys.get(cacheKey);
+        if (!subkeys) {
+            const keys = this.keys.get(digest);
+            if (!keys) return Promise.resolve([]);
+            subkeys = Promise.all(keys.map((key) => deriveSubkey(key, `${FIELD_KEY_LABEL}:${label}`)));
+            // labels come from stored data, so don't let them grow the cache without bound
+            if (this.subkeys.size >= MAX_CACHED_SUBKEYS) {
+                this.subkeys.clear();
+            }
+            this.subkeys.set(cacheKey, subkeys);
+        }
+        return subkeys;
+    }
 }
@@ -0,0 +1,128 @@
+import type { AuditedValue } from './types.js';
+
+/**
+ * How an {@link EncryptedValue} is serialized by `JSON.stringify`:
+ * - `'redacted'`: as null
+ * - `'stored'`: as stored in the database (the ciphertext)
+ * - `'revealed'`: as its plaintext, throwing if it hasn't been revealed yet
+ */
+export type EncryptedValueJson = 'redacted' | 'stored' | 'revealed';
+
+/**
+ * Reports revealed values to the `onDecrypt` hook, in one event
+ */
+type ReportReveals = (values: AuditedValue[]) => Promise<void>;
+
+// the values revealed by one revealAll() call, by the report they go to
+type RevealBatch = Map<ReportReveals, AuditedValue[]>;
+
+// the batch a value being revealed by revealAll() reports to, rather than on its own
+const revealBatches = new WeakMap<EncryptedValue, RevealBatch>();
+
+/**
+ * An encrypted field value returned by a query with `lazyDecrypt` enabled,
+ * decrypted on first call to {@link reveal}
+ */
+export class EncryptedValue<T = unknown> {
+    private revealing: Promise<T> | undefined;
+    private revealedValue: { value: T } | undefined;
+
+    /**
+     * @param decrypt Decrypts the value, called at most once, passing the values to report to `audit`
+     * @param stored The value as stored in the database
+     * @param json How the value is serialized to JSON
+     * @param report Reports the values `decrypt` audited
+     */
+    constructor(
+        private readonly decrypt: (audit: (value: AuditedValue) => void) => Promise<T>,
+        private readonly stored: unknown,
+        private readonly json: EncryptedValueJson = 'redacted',
+        private readonly report?: ReportReveals,
+    ) {}
+
+    /**
+     * Whether the value has been decrypted
+     */
+    get revealed(): boolean {
+        return this.revealedValue !== undefined;
+    }
+
+    /**
+     * Decrypt the value (masked if the caller may not decrypt it)
+     */
+    reveal(): Promise<T> {
+        const batch = revealBatches.get(this);
+        revealBatches.delete(this);
+        if (!this.revealing) {
+            const audited: AuditedValue[] = [];
+            this.revealing = this.decrypt((value) => audited.push(value)).then(async (value) => {
+                if (this.report && audited.length > 0) {
+                    if (batch) {
+                        batch.set(this.report, [...(batch.get(this.report) ?? []), ...audited]);
+                    } else {
+                        await this.report(audited);
+                    }
+                }
+                this.revealedValue = { value };
+                return value;
+            });
+            // a failed decryption is retried on the next call
+            this.revealing.catch(() => (this.revealing = undefined));
+        }
+        return this.revealing;
+    }
+
+    toJSON(): unknown {
+        switch (this.json) {
+            case 'redacted':
+                return null;
+            case 'stored':
+                return this.stored;
+            case 'revealed':
+                if (!this.revealedValue) {
+                    throw new Error('Encrypted value must be revealed before it is serialized, e.g. with revealAll()');
+                }
+                return this.revealedValue.value;
+        }
+    }
+
+    toString(): string {
+        return '[EncryptedValue]';
+    }
+}
+
+/**
+ * Decrypt the {@link EncryptedValue}s in a query result, replacing them with
+ * their plaintext in place, including in nested relations. The values revealed
+ * are reported to `onDecrypt` in one event per query they were read by.
+ * @returns The result
+ */
+export async function revealAll<T>(data: T): Promise<T> {
+    const batch: RevealBatch = new Map();
+    await revealIn(data, batch);
+    for (const [report, values] of batch) {
+        await report(values);
+    }
+    return data;
+}
+
+async function revealIn(data: unknown, batch: RevealBatch): Promise<void> {
+    const revealValue = async (value: unknown) => {
+        if (!(value instanceof EncryptedValue)) {
+            await revealIn(value, batch);
+            return value;
+        }
+        revealBatches.set(value, batch);
+        return value.reveal();
+    };
+    if (Array.isArray(data)) {
+        for (let i = 0; i < data.length; i++) {
+            data[i] = await revealValue(data[i]);
+        }
+    } else if (typeof data === 'object' && data !== null && Object.getPrototypeOf(data) === Object.prototype) {
+        const record = data as Record<string, unknown>;
+        for (const [key, value] of Object.entries(record)) {
+            record[key] = await revealValue(value);
+        }
+    }
+}
@@ -1,11 +1,58 @@
-import { _encrypt, ENCRYPTION_KEY_BYTES, getKeyDigest, loadKey } from './utils.js';
+import type { AssociatedData } from './utils.js';
+import {
+    _encrypt,
+    deriveSubkey,
+    ENCRYPTION_KEY_BYTES,
+    FIELD_KEY_LABEL,
+    getKeyDigest,
+    loadHmacKey,
+    SYNTHETIC_IV_KEY_LABEL,
+} from './utils.js';
 
 /**
- * Default encrypter using AES-256-GCM
+ * Options for a single encryption
+ */
+export type EncryptOptions = {
+    /**
+     * Name of a registered cipher to encrypt with. Defaults to AES-GCM.
+     */
+    algorithm?: string;
+
+    /**
+     * Derive the IV from the plaintext so equal values encrypt to equal ciphertexts
+     */
+    deterministic?: boolean;
+
+    /**
+     * Field the value is stored in (e.g. `User.ssn`). Deterministic IVs are derived
+     * per field, so equal values in different fields don't encrypt to equal ciphertexts.
+     */
+    field?: string;
+
+    /**
+     * Type tag recorded in the envelope so the value can be restored to its original type
+     */
+    type?: string;
+
+    /**
+     * Associated data to bind the ciphertext to, required again to decrypt it
+     */
+    associatedData?: AssociatedData;
+
+    /**
+     * Encrypt with a subkey derived from the key for this label (e.g. `User.ssn`),
+     * recorded in the envelope
+     */
+    subkey?: string;
+};
+
+/**
+ * Default encrypter using AES-256-GCM, or another registered cipher
  */
 export class Encrypter {
-    private key: CryptoKey | undefined;
     private keyDigest: string | undefined;
+    // encryption key and synthetic IV keys by field, by subkey label ('' for the key itself)
+    private keys = new Map<string, { key: Uint8Array; ivKeys: Map<string, Promise<CryptoKey>> }>();
 
     constructor(private readonly encryptionKey: Uint8Array) {
         if (encryptionKey.length !== ENCRYPTION_KEY_BYTES) {
@@ -16,15 +63,39 @@ export class Encrypter {
     /**
      * Encrypts the given data
      */
-    async encrypt(data: string): Promise<string> {
-        if (!this.key) {
-            this.key = await loadKey(this.encryptionKey, ['encrypt']);
-        }
-
+    async encrypt(data: string, options: EncryptOptions = {}): Promise<string> {
         if (!this.keyDigest) {
             this.keyDigest = await getKeyDigest(this.encryptionKey);
         }
 
-        return _encrypt(data, this.key, this.keyDigest);
+        const label = options.subkey ?? '';
+        let entry = this.keys.get(label);
+        if (!entry) {
+            entry = {
+                key: label ? await deriveSubkey(this.encryptionKey, `${FIELD_KEY_LABEL}:${label}`) : this.encryptionKey,
+                ivKeys: new Map(),
+            };
+            this.keys.set(label, entry);
+        }
+
+        let ivKey: CryptoKey | undefined;
+        if (options.deterministic) {
+            const field = options.field ?? '';
+            let fieldIvKey = entry.ivKeys.get(field);
+            if (!fieldIvKey) {
+                const ivLabel = field ? `${SYNTHETIC_IV_KEY_LABEL}:${field}` : SYNTHETIC_IV_KEY_LABEL;
+                fieldIvKey = deriveSubkey(entry.key, ivLabel).then(loadHmacKey);
+                entry.ivKeys.set(field, fieldIvKey);
+            }
+            ivKey = await fieldIvKey;
+        }
+
+        return _encrypt(data, entry.key, this.keyDigest, {
+            algorithm: options.algorithm,
+            ivKey,
+            type: options.type,
+            associatedData: options.associatedData,
+            subkey: options.subkey,
+        });
     }
 }
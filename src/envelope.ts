@@ -0,0 +1,123 @@
+import type { Decrypter } from './decrypter.js';
+import { UnknownKeyError } from './errors.js';
+import type { KeyProvider, WrappedKey } from './types.js';
+import type { AssociatedData, AssociatedDataResolver } from './utils.js';
+import { _decrypt, _encrypt, ENCRYPTION_KEY_BYTES, readEncryptionMeta } from './utils.js';
+
+export const DEFAULT_DATA_KEY_TTL = 5 * 60 * 1000;
+const MAX_CACHED_DATA_KEYS = 1000;
+
+type CachedDataKey = { key: Uint8Array; wrapped: WrappedKey; expires: number };
+
+/**
+ * Envelope encryption: each value is encrypted with a data key (DEK) that is
+ * wrapped by a key encryption key (KEK) from a {@link KeyProvider} and stored
+ * in the envelope metadata. Generated and unwrapped data keys are cached.
+ */
+export class EnvelopeCipher {
+    // data keys generated for encryption, by scope
+    private generatedKeys = new Map<string, CachedDataKey>();
+    // data keys unwrapped for decryption, by wrapped key
+    private unwrappedKeys = new Map<string, CachedDataKey>();
+
+    constructor(
+        private readonly keyProvider: KeyProvider,
+        private readonly options: {
+            /** How long data keys are cached, in milliseconds */
+            ttl?: number;
+            /** Decrypter for data encrypted directly with a key, before envelope encryption */
+            legacyDecrypter?: Decrypter;
+        } = {},
+    ) {}
+
+    /**
+     * Encrypts the given data with a data key. Without a scope a new data key is
+     * generated; with a scope the scope's cached data key is reused.
+     */
+    async encrypt(
+        data: string,
+        options: { scope?: string; algorithm?: string; type?: string; associatedData?: AssociatedData } = {},
+    ): Promise<string> {
+        const { key, wrapped } = await this.getDataKey(options.scope);
+        return _encrypt(data, key, wrapped.keyId, {
+            algorithm: options.algorithm,
+            type: options.type,
+            wrappedKey: wrapped.data,
+            associatedData: options.associatedData,
+        });
+    }
+
+    /**
+     * Decrypts the given data, resolving associated data it is bound to (if any)
+     */
+    async decrypt(data: string, getAssociatedData?: AssociatedDataResolver): Promise<string> {
+        const meta = readEncryptionMeta(data);
+        if (!meta.w) {
+            if (!this.options.legacyDecrypter) {
+                throw new UnknownKeyError(meta.k, 'Encrypted data has no wrapped data key');
+            }
+            return this.options.legacyDecrypter.decrypt(data, getAssociatedData);
+        }
+
+        return _decrypt(
+            data,
+            async (keyId, { w }) => [await this.unwrapDataKey({ keyId, data: w! })],
+            getAssociatedData,
+        );
+    }
+
+    private async getDataKey(scope: string | undefined): Promise<CachedDataKey> {
+        if (scope !== undefined) {
+            const cached = this.getCached(this.generatedKeys, scope);
+            if (cached) return cached;
+        }
+
+        const raw = crypto.getRandomValues(new Uint8Array(ENCRYPTION_KEY_BYTES));
+        const entry = {
+            key: raw,
+            wrapped: await this.keyProvider.wrapKey(raw),
+            expires: Date.now() + this.ttl,
+        };
+        if (scope !== undefined) {
+            this.setCached(this.generatedKeys, scope, entry);
+        }
+        return entry;
+    }
+
+    private async unwrapDataKey(wrapped: WrappedKey): Promise<Uint8Array> {
+        const cacheKey = `${wrapped.keyId}:${wrapped.data}`;
+        const cached = this.getCached(this.unwrappedKeys, cacheKey);
+        if (cached) return cached.key;
+
+        const key = await this.keyProvider.unwrapKey(wrapped);
+        this.setCached(this.unwrappedKeys, cacheKey, { key, wrapped, expires: Date.now() + this.ttl });
+        return key;
+    }
+
+    private get ttl(): number {
+        return this.options.ttl ?? DEFAULT_DATA_KEY_TTL;
+    }
+
+    private getCached(cache: Map<string, CachedDataKey>, id: string): CachedDataKey | undefined {
+        const entry = cache.get(id);
+        if (entry && entry.expires <= Date.now()) {
+            cache.delete(id);
+            return undefined;
+        }
+        return entry;
+    }
+
+    private setCached(cache: Map<string, CachedDataKey>, id: string, entry: CachedDataKey): void {
+        if (cache.size >= MAX_CACHED_DATA_KEYS) {
+            const now = Date.now();
+            for (const [key, value] of cache) {
+                if (value.expires <= now) cache.delete(key);
+            }
+            // still full: evict the oldest entry
+            if (cache.size >= MAX_CACHED_DATA_KEYS) {
+                cache.delete(cache.keys().next().value!);
+            }
+        }
+        cache.set(id, entry);
+    }
+}
@@ -0,0 +1,185 @@
+/**
+ * Thrown when an encrypted field value can't be decrypted, e.g. because it is
+ * malformed or was encrypted under a key that is no longer available
+ */
+export class DecryptionError extends Error {
+    override readonly name = 'DecryptionError';
+
+    constructor(
+        /**
+         * The model name
+         */
+        readonly model: string,
+        /**
+         * The field name
+         */
+        readonly field: string,
+        /**
+         * Id of the key the value was encrypted with (key digest, or KEK id with a
+         * key provider), if it could be read from the encrypted data
+         */
+        readonly keyId: string | undefined,
+        /**
+         * The underlying error
+         */
+        readonly cause: unknown,
+    ) {
+        super(`Failed to decrypt ${model}.${field}${keyId ? ` (key ${keyId})` : ''}`);
+    }
+}
+
+/**
+ * Thrown when a query filters, sorts, groups or aggregates by an encrypted field
+ * in a way that can't be answered from its encrypted values, or updates one
+ * with an operation the database would have to apply to its value
+ */
+export class UnsupportedEncryptedFilterError extends Error {
+    override readonly name = 'UnsupportedEncryptedFilterError';
+
+    constructor(
+        /**
+         * The model name
+         */
+        readonly model: string,
+        /**
+         * The field name
+         */
+        readonly field: string,
+        /**
+         * What the query does with the field, e.g. `'orderBy'` or `'contains' filter`
+         */
+        readonly usage: string,
+    ) {
+        super(`Encrypted field ${model}.${field} does not support ${usage}`);
+    }
+}
+
+/**
+ * Thrown when the schema uses `@encrypted` in ways the plugin can't support, e.g.
+ * on an id field or with invalid attribute parameters
+ */
+export class SchemaValidationError extends Error {
+    override readonly name = 'SchemaValidationError';
+
+    constructor(
+        /**
+         * A description of each problem found
+         */
+        readonly problems: string[],
+    ) {
+        super(`Invalid use of @encrypted in the schema:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    }
+}
+
+/**
+ * Base class of the errors thrown when encrypted data can't be read or decrypted,
+ * so callers can tell tampering (`AuthenticationFailedError`) from missing keys
+ * (`UnknownKeyError`) or data that isn't encrypted (`MalformedEnvelopeError`)
+ */
+export class EncryptedDataError extends Error {
+    override readonly name: string = 'EncryptedDataError';
+}
+
+/**
+ * Thrown when data isn't a well-formed encryption envelope, e.g. because it is
+ * truncated, has trailing data, or is plaintext
+ */
+export class MalformedEnvelopeError extends EncryptedDataError {
+    override readonly name = 'MalformedEnvelopeError';
+
+    constructor(message = 'Malformed encrypted data') {
+        super(message);
+    }
+}
+
+/**
+ * Thrown when an envelope has a format version this version of the library can't read
+ */
+export class UnsupportedVersionError extends EncryptedDataError {
+    override readonly name = 'UnsupportedVersionError';
+
+    constructor(
+        /**
+         * The envelope's format version
+         */
+        readonly version: number,
+    ) {
+        super(`Unsupported encryption version ${version}`);
+    }
+}
+
+/**
+ * Thrown when an envelope names a cipher that isn't registered
+ */
+export class UnsupportedAlgorithmError extends EncryptedDataError {
+    override readonly name = 'UnsupportedAlgorithmError';
+
+    constructor(
+        /**
+         * The cipher's name, or its id in the v2 binary header
+         */
+        readonly algorithm: string | number,
+    ) {
+        super(
+            typeof algorithm === 'number'
+                ? `Unknown encryption algorithm id ${algorithm}`
+                : `Unknown encryption algorithm "${algorithm}"`,
+        );
+    }
+}
+
+/**
+ * Thrown when none of the available keys is the one data was encrypted under
+ */
+export class UnknownKeyError extends EncryptedDataError {
+    override readonly name = 'UnknownKeyError';
+
+    constructor(
+        /**
+         * Id of the missing key: the key digest, or the key encryption key id with a key provider
+         */
+        readonly keyId: string,
+        message = `No matching decryption key found for key ${keyId}`,
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * Thrown when a ciphertext fails authentication under the key it names: it,
+ * its envelope or the associated data it is bound to was altered, or a key
+ * with a colliding digest was used
+ */
+export class AuthenticationFailedError extends EncryptedDataError {
+    override readonly name = 'AuthenticationFailedError';
+
+    constructor(
+        /**
+         * Id of the key the data was decrypted with
+         */
+        readonly keyId: string,
+        /**
+         * The underlying error
+         */
+        readonly cause?: unknown,
+    ) {
+        super(`Authentication failed with key ${keyId}: the encrypted data or its associated data was altered`);
+    }
+}
+
+/**
+ * Thrown when data bound to associated data is decrypted without it, e.g. a
+ * row-bound value read without the row's id
+ */
+export class MissingAssociatedDataError extends EncryptedDataError {
+    override readonly name = 'MissingAssociatedDataError';
+
+    constructor(
+        /**
+         * The binding scheme recorded in the envelope
+         */
+        readonly scheme: string,
+    ) {
+        super(`Missing associated data for binding "${scheme}"`);
+    }
+}
@@ -1,6 +1,54 @@
+export type { CipherAlgorithm } from './algorithms.js';
+export { getAlgorithm, registerAlgorithm } from './algorithms.js';
+export type { AssociatedDataScheme } from './associated-data.js';
+export { FileAuditSink, MemoryAuditSink } from './audit.js';
+export { BlindIndexer } from './blind-index.js';
 export { Decrypter } from './decrypter.js';
+export type { EncryptedValueJson } from './encrypted-value.js';
+export { EncryptedValue, revealAll } from './encrypted-value.js';
 export { Encrypter } from './encrypter.js';
+export { EnvelopeCipher } from './envelope.js';
+export {
+    AuthenticationFailedError,
+    DecryptionError,
+    EncryptedDataError,
+    MalformedEnvelopeError,
+    MissingAssociatedDataError,
+    SchemaValidationError,
+    UnknownKeyError,
+    UnsupportedAlgorithmError,
+    UnsupportedEncryptedFilterError,
+    UnsupportedVersionError,
+} from './errors.js';
+export type { KeyDerivation } from './kdf.js';
+export { LocalKeyProvider } from './key-provider.js';
+export type { EncryptExistingOptions, EncryptExistingResult } from './migrate.js';
+export { encryptExisting } from './migrate.js';
 export { encryption } from './plugin.js';
-export type { CustomEncryption, EncryptionConfig, SimpleEncryption } from './types.js';
-export { isCustomEncryption } from './types.js';
+export type { ReencryptOptions, ReencryptProgress, ReencryptResult } from './reencrypt.js';
+export { reencrypt } from './reencrypt.js';
+export type { ScanOptions, ScanResult } from './scan.js';
+export { scanEncryptedValues } from './scan.js';
+export type {
+    AuditedValue,
+    CustomEncryption,
+    DecryptErrorPolicy,
+    DecryptionContext,
+    EncryptionAuditEvent,
+    EncryptionConfig,
+    EncryptionLogger,
+    EncryptionOptions,
+    KeyChangeEvent,
+    KeyProvider,
+    KeyProviderEncryption,
+    KeySet,
+    KeySource,
+    KeySourceEncryption,
+    NamedKey,
+    SimpleEncryption,
+    WrappedKey,
+} from './types.js';
+export { isCustomEncryption, isKeyProviderEncryption, isKeySourceEncryption } from './types.js';
 export { deriveKey, ENCRYPTION_KEY_BYTES } from './utils.js';
+export type { SchemaValidationOptions } from './validation.js';
+export { validateEncryptedSchema } from './validation.js';
@@ -0,0 +1,164 @@
+import { loadNodeCrypto } from './node-crypto.js';
+
+/**
+ * How string secrets are turned into 32-byte keys:
+ * - `'sha256'`: a single unsalted SHA-256, the legacy default. Only for high-entropy secrets.
+ * - `'hkdf'`: HKDF-SHA256, for high-entropy secrets (random tokens from a secrets manager)
+ * - `'pbkdf2'`, `'scrypt'`, `'argon2id'`: salted, slow derivations for passphrases.
+ *   `'scrypt'` needs Node.js, `'argon2id'` Node.js 24.7 or later.
+ */
+export type KeyDerivation =
+    | { algorithm: 'sha256' }
+    | {
+          algorithm: 'hkdf';
+          /** Defaults to no salt */
+          salt?: string | Uint8Array;
+          /** Context string binding the key to its use */
+          info?: string;
+      }
+    | {
+          algorithm: 'pbkdf2';
+          salt: string | Uint8Array;
+          /** Defaults to 600,000 */
+          iterations?: number;
+          /** Defaults to SHA-256 */
+          hash?: 'SHA-256' | 'SHA-512';
+      }
+    | {
+          algorithm: 'scrypt';
+          salt: string | Uint8Array;
+          /** CPU/memory cost (N), a power of two. Defaults to 2^17. */
+          cost?: number;
+          /** Block size (r). Defaults to 8. */
+          blockSize?: number;
+          /** Parallelization (p). Defaults to 1. */
+          parallelization?: number;
+      }
+    | {
+          algorithm: 'argon2id';
+          salt: string | Uint8Array;
+          /** Memory in KiB. Defaults to 19456 (19 MiB). */
+          memory?: number;
+          /** Number of passes. Defaults to 2. */
+          passes?: number;
+          /** Degree of parallelism. Defaults to 1. */
+          parallelism?: number;
+      };
+
+const KEY_BYTES = 32;
+const MIN_SALT_BYTES = 8;
+const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+const DEFAULT_SCRYPT_COST = 2 ** 17;
+const DEFAULT_ARGON2_MEMORY = 19_456;
+
+const encoder = new TextEncoder();
+
+function toBytes(value: string | Uint8Array): Uint8Array<ArrayBuffer> {
+    return typeof value === 'string' ? encoder.encode(value) : new Uint8Array(value);
+}
+
+function isPositiveInteger(value: number | undefined): boolean {
+    return value === undefined || (Number.isInteger(value) && value > 0);
+}
+
+/**
+ * Check a key derivation configuration, throwing if it is invalid
+ */
+export function validateKeyDerivation(kdf: KeyDerivation): void {
+    switch (kdf.algorithm) {
+        case 'sha256':
+        case 'hkdf':
+            return;
+        case 'pbkdf2':
+            if (!isPositiveInteger(kdf.iterations)) {
+                throw new Error('PBKDF2 iterations must be a positive integer');
+            }
+            break;
+        case 'scrypt':
+            if (
+                !isPositiveInteger(kdf.cost) ||
+                (kdf.cost !== undefined && (kdf.cost < 2 || (kdf.cost & (kdf.cost - 1)) !== 0)) ||
+                !isPositiveInteger(kdf.blockSize) ||
+                !isPositiveInteger(kdf.parallelization)
+            ) {
+                throw new Error('scrypt cost must be a power of two, block size and parallelization positive integers');
+            }
+            break;
+        case 'argon2id':
+            if (
+                !isPositiveInteger(kdf.memory) ||
+                !isPositiveInteger(kdf.passes) ||
+                !isPositiveInteger(kdf.parallelism)
+            ) {
+                throw new Error('Argon2id memory, passes and parallelism must be positive integers');
+            }
+            break;
+        default:
+            throw new Error(`Unknown key derivation algorithm "${(kdf as { algorithm: string }).algorithm}"`);
+    }
+    if (toBytes(kdf.salt).length < MIN_SALT_BYTES) {
+        throw new Error(`${kdf.algorithm} salt must be at least ${MIN_SALT_BYTES} bytes`);
+    }
+}
+
+/**
+ * Derive a 32-byte key from a string secret
+ */
+export async function deriveSecret(secret: string, kdf: KeyDerivation): Promise<Uint8Array> {
+    validateKeyDerivation(kdf);
+    const password = encoder.encode(secret);
+
+    switch (kdf.algorithm) {
+        case 'sha256':
+            return new Uint8Array(await crypto.subtle.digest('SHA-256', password));
+        case 'hkdf': {
+            const key = await crypto.subtle.importKey('raw', password, 'HKDF', false, ['deriveBits']);
+            const params = {
+                name: 'HKDF',
+                hash: 'SHA-256',
+                salt: toBytes(kdf.salt ?? new Uint8Array()),
+                info: encoder.encode(kdf.info ?? ''),
+            };
+            return new Uint8Array(await crypto.subtle.deriveBits(params, key, KEY_BYTES * 8));
+        }
+        case 'pbkdf2': {
+            const key = await crypto.subtle.importKey('raw', password, 'PBKDF2', false, ['deriveBits']);
+            const params = {
+                name: 'PBKDF2',
+                hash: kdf.hash ?? 'SHA-256',
+                salt: toBytes(kdf.salt),
+                iterations: kdf.iterations ?? DEFAULT_PBKDF2_ITERATIONS,
+            };
+            return new Uint8Array(await crypto.subtle.deriveBits(params, key, KEY_BYTES * 8));
+        }
+        case 'scrypt': {
+            const nodeCrypto = await loadNodeCrypto('scrypt key derivation');
+            const N = kdf.cost ?? DEFAULT_SCRYPT_COST;
+            const r = kdf.blockSize ?? 8;
+            const p = kdf.parallelization ?? 1;
+            const options = { N, r, p, maxmem: 256 * N * r };
+            return new Promise((resolve, reject) =>
+                nodeCrypto.scrypt(password, toBytes(kdf.salt), KEY_BYTES, options, (err, key) =>
+                    err ? reject(err) : resolve(new Uint8Array(key)),
+                ),
+            );
+        }
+        case 'argon2id': {
+            const { argon2 } = await loadNodeCrypto('Argon2id key derivation');
+            if (!argon2) {
+                throw new Error('Argon2id key derivation requires Node.js 24.7 or later');
+            }
+            const parameters = {
+                message: password,
+                nonce: toBytes(kdf.salt),
+                parallelism: kdf.parallelism ?? 1,
+                tagLength: KEY_BYTES,
+                memory: kdf.memory ?? DEFAULT_ARGON2_MEMORY,
+                passes: kdf.passes ?? 2,
+            };
+            return new Promise((resolve, reject) =>
+                argon2('argon2id', parameters, (err, key) => (err ? reject(err) : resolve(new Uint8Array(key)))),
+            );
+        }
+    }
+}
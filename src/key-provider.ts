@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { AuthenticationFailedError, UnknownKeyError } from './errors.js';
+import type { KeyProvider, WrappedKey } from './types.js';
+import { deriveKey, fromBase64, IV_BYTES, loadKey, toBase64 } from './utils.js';
+
+const keyringSchema = z.object({
+    currentKeyId: z.string(),
+    keys: z.record(z.string(), z.string()),
+});
+
+/**
+ * Key provider backed by a local keyring of key encryption keys.
+ * Data keys are wrapped with AES-256-GCM under the current key.
+ */
+export class LocalKeyProvider implements KeyProvider {
+    private loadedKeys = new Map<string, Promise<CryptoKey>>();
+
+    /**
+     * @param keys Key encryption keys by id. Each key can be a Uint8Array (32 bytes)
+     * or a string (derived via SHA-256).
+     * @param currentKeyId Id of the key used to wrap new data keys
+     */
+    constructor(
+        private readonly keys: Record<string, string | Uint8Array>,
+        private readonly currentKeyId: string,
+    ) {
+        if (!(currentKeyId in keys)) {
+            throw new Error(`Current key "${currentKeyId}" is not in the keyring`);
+        }
+    }
+
+    /**
+     * Creates a provider from a JSON keyring, e.g. the contents of a key file:
+     * `{ "currentKeyId": "2024-01", "keys": { "2024-01": "<base64 32-byte key>" } }`
+     */
+    static fromJSON(json: string): LocalKeyProvider {
+        const { currentKeyId, keys } = keyringSchema.parse(JSON.parse(json));
+        return new LocalKeyProvider(
+            Object.fromEntries(Object.entries(keys).map(([id, key]) => [id, fromBase64(key)])),
+            currentKeyId,
+        );
+    }
+
+    private getKey(keyId: string): Promise<CryptoKey> {
+        const input = this.keys[keyId];
+        if (input === undefined) {
+            throw new UnknownKeyError(keyId, `Unknown key encryption key "${keyId}"`);
+        }
+
+        let key = this.loadedKeys.get(keyId);
+        if (!key) {
+            key = deriveKey(input).then((raw) => loadKey(raw, ['encrypt', 'decrypt']));
+            this.loadedKeys.set(keyId, key);
+        }
+        return key;
+    }
+
+    async wrapKey(dataKey: Uint8Array): Promise<WrappedKey> {
+        const key = await this.getKey(this.currentKeyId);
+        const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+        // Convert to ArrayBuffer for crypto.subtle compatibility
+        const keyBuffer = dataKey.buffer.slice(
+            dataKey.byteOffset,
+            dataKey.byteOffset + dataKey.byteLength,
+        ) as ArrayBuffer;
+        const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, keyBuffer);
+        return { keyId: this.currentKeyId, data: toBase64(new Uint8Array([...iv, ...new Uint8Array(wrapped)])) };
+    }
+
+    async unwrapKey(wrapped: WrappedKey): Promise<Uint8Array> {
+        const key = await this.getKey(wrapped.keyId);
+        const bytes = fromBase64(wrapped.data);
+        let dataKey: ArrayBuffer;
+        try {
+            dataKey = await crypto.subtle.decrypt(
+                { name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES) },
+                key,
+                bytes.slice(IV_BYTES),
+            );
+        } catch (err) {
+            throw new AuthenticationFailedError(wrapped.keyId, err);
+        }
+        return new Uint8Array(dataKey);
+    }
+}
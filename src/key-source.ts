@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import type { KeySet, KeySource } from './types.js';
+
+type NodeFs = {
+    readFile(path: string, encoding: 'utf8'): Promise<string>;
+};
+
+type NodeWatch = {
+    watch(path: string, listener: (event: string, filename: string | null) => void): NodeWatcher;
+};
+
+type NodeWatcher = {
+    close(): void;
+    unref?(): void;
+};
+
+type NodePath = {
+    basename(path: string): string;
+    dirname(path: string): string;
+};
+
+// how long to wait for a file being written to settle before reloading it
+const WATCH_DEBOUNCE_MS = 100;
+
+const keyInputSchema = z.union([z.string().min(1), z.instanceof(Uint8Array)]);
+
+const namedKeySchema = z.object({
+    key: keyInputSchema,
+    previousKeys: z.array(keyInputSchema).optional(),
+});
+
+const keySetSchema = namedKeySchema.extend({
+    keyring: z.array(keyInputSchema).optional(),
+    keys: z.record(z.string(), namedKeySchema).optional(),
+});
+
+/**
+ * Import a Node.js module; a variable specifier keeps bundlers from resolving it for non-Node targets
+ */
+function importNode<T>(specifier: string): Promise<T> {
+    return import(specifier) as Promise<T>;
+}
+
+/**
+ * Load the keys of a key source, checking they are well-formed
+ */
+export async function loadKeySet(source: KeySource): Promise<KeySet> {
+    let keySet: unknown;
+    if (typeof source === 'function') {
+        keySet = await source();
+    } else {
+        const { readFile } = await importNode<NodeFs>('node:fs/promises');
+        keySet = JSON.parse(await readFile(source.file, 'utf8'));
+    }
+
+    const parsed = keySetSchema.safeParse(keySet);
+    if (!parsed.success) {
+        const where = typeof source === 'function' ? 'key source' : source.file;
+        throw new Error(`Invalid keys in ${where}: ${z.prettifyError(parsed.error)}`);
+    }
+    return parsed.data;
+}
+
+/**
+ * Call `onChange` when a key file changes. Its directory is watched, so a file
+ * replaced by a rename (as editors and secret managers do) is still followed.
+ * The watcher doesn't keep the process alive.
+ *
+ * @returns A function that stops watching
+ */
+export async function watchKeyFile(path: string, onChange: () => void): Promise<() => void> {
+    const { watch } = await importNode<NodeWatch>('node:fs');
+    const { basename, dirname } = await importNode<NodePath>('node:path');
+    const name = basename(path);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const watcher = watch(dirname(path), (_, filename) => {
+        if (filename !== null && filename !== name) return;
+        clearTimeout(timer);
+        timer = setTimeout(onChange, WATCH_DEBOUNCE_MS);
+    });
+    watcher.unref?.();
+
+    return () => {
+        clearTimeout(timer);
+        watcher.close();
+    };
+}
@@ -0,0 +1,159 @@
+import type { ClientContract } from '@zenstackhq/orm';
+import type { SchemaDef } from '@zenstackhq/orm/schema';
+import { getModelDelegate } from './client.js';
+import { getClientEncryptionHandle, PLUGIN_ID } from './plugin.js';
+import {
+    getEncryptedTypeDefFields,
+    getEncryptedTypeDefValues,
+    getOwnEncryptedFields,
+    getStorageFieldName,
+} from './schema.js';
+import { isStoredEncrypted } from './serialization.js';
+
+/**
+ * Options for {@link encryptExisting}
+ */
+export type EncryptExistingOptions = {
+    /**
+     * Number of rows read and encrypted per transaction. Defaults to 100.
+     */
+    batchSize?: number;
+
+    /**
+     * Only count the values that would be encrypted, without writing
+     */
+    dryRun?: boolean;
+
+    /**
+     * Called after each batch with the progress so far
+     */
+    onProgress?: (progress: EncryptExistingResult) => void;
+};
+
+/**
+ * Result of an {@link encryptExisting} run
+ */
+export type EncryptExistingResult = {
+    /**
+     * Number of rows scanned
+     */
+    scanned: number;
+
+    /**
+     * Number of plaintext values encrypted (or that would be, in a dry run)
+     */
+    encrypted: number;
+};
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Encrypt the plaintext values of a field in place, e.g. after adding
+ * `@encrypted` to a populated column. Values that are already encrypted are
+ * left alone. For a field with a storage field, the values are encrypted into
+ * it and the field's own column is cleared. For a field typed with a type
+ * definition, the plaintext values of its encrypted fields are encrypted,
+ * rewriting the field's other values with them. Rows are paged in batches;
+ * each batch is written in a transaction, and a value changed concurrently is
+ * left alone.
+ *
+ * @param client A client with the encryption plugin installed
+ * @param model The model name
+ * @param field The name of the encrypted field, or of a field typed with a type definition that has them
+ * @param options Migration options
+ * @returns Counts of scanned rows and encrypted values
+ */
+export async function encryptExisting<Schema extends SchemaDef>(
+    client: ClientContract<Schema>,
+    model: string,
+    field: string,
+    options: EncryptExistingOptions = {},
+): Promise<EncryptExistingResult> {
+    const handle = getClientEncryptionHandle(client);
+    const schema = client.$schema as SchemaDef;
+    if (!schema.models[model]) {
+        throw new Error(`Unknown model "${model}"`);
+    }
+    const fieldDef = getOwnEncryptedFields(schema, model).find((f) => f.name === field);
+    const typeDefField = getEncryptedTypeDefFields(schema, model).find((f) => f.name === field);
+    if (!fieldDef && !typeDefField) {
+        throw new Error(`${model}.${field} is not an encrypted field stored in the model's table`);
+    }
+
+    // read and write raw values, bypassing the plugin
+    const raw = client.$unuse(PLUGIN_ID);
+    const auth = client.$auth;
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const { idFields } = schema.models[model]!;
+    const result: EncryptExistingResult = { scanned: 0, encrypted: 0 };
+    // the plaintext values of a field with a storage field are moved to it
+    const storageField = fieldDef && getStorageFieldName(fieldDef);
+    const columns = storageField === undefined ? [...idFields, field] : [...idFields, field, storageField];
+
+    for (let skip = 0; ; skip += batchSize) {
+        const rows = await getModelDelegate(raw, model).findMany({
+            // a key resolver may need any of the row's fields (e.g. a tenant id)
+            select: handle.resolvesKeysPerRow
+                ? undefined
+                : Object.fromEntries(columns.map((f) => [f, true])),
+            orderBy: idFields.map((f) => ({ [f]: 'asc' })),
+            skip,
+            take: batchSize,
+        });
+        if (rows.length === 0) break;
+
+        const updates: { where: Record<string, unknown>; data: Record<string, unknown> }[] = [];
+        for (const row of rows) {
+            result.scanned++;
+            const stored = row[field];
+            if (stored === null || stored === undefined) continue;
+            // a value left in the column once the storage field has a newer one is only cleared
+            const stale = storageField !== undefined && row[storageField] !== null && row[storageField] !== undefined;
+
+            let value = stored;
+            if (typeDefField) {
+                // the field is encrypted as a whole, so its encrypted values are decrypted first
+                value = structuredClone(stored);
+                const values = getEncryptedTypeDefValues(schema, typeDefField.type, field, value);
+                const plaintext = values.filter((v) => !isStoredEncrypted(v.value)).length;
+                if (plaintext === 0) continue;
+                for (const { field: inner, value: encrypted, assign } of values) {
+                    if (isStoredEncrypted(encrypted)) {
+                        assign(await handle.decryptField(schema, model, inner, encrypted, row));
+                    }
+                }
+                result.encrypted += plaintext;
+            } else if (isStoredEncrypted(stored)) {
+                continue;
+            } else if (!stale) {
+                result.encrypted++;
+            }
+
+            if (!options.dryRun) {
+                const data: Record<string, unknown> = stale ? {} : { [field]: value };
+                await handle.encryptData(schema, model, data, auth, { ...row });
+                // only overwrite the value if it hasn't changed since it was read
+                const where = { ...Object.fromEntries(idFields.map((f) => [f, row[f]])), [field]: { equals: stored } };
+                if (storageField !== undefined) {
+                    data[field] = null;
+                    where[storageField] = row[storageField];
+                }
+                updates.push({ where, data });
+            }
+        }
+
+        if (updates.length > 0) {
+            await raw.$transaction(async (tx) => {
+                const txDelegate = getModelDelegate(tx, model);
+                for (const update of updates) {
+                    await txDelegate.updateMany(update);
+                }
+            });
+        }
+
+        options.onProgress?.({ ...result });
+        if (rows.length < batchSize) break;
+    }
+
+    return result;
+}
@@ -0,0 +1,52 @@
+/**
+ * The subset of Node's `crypto` module used where WebCrypto falls short
+ */
+export type NodeCipher = {
+    setAAD(data: Uint8Array): void;
+    update(data: Uint8Array): Uint8Array;
+    final(): Uint8Array;
+    getAuthTag(): Uint8Array;
+    setAuthTag(tag: Uint8Array): void;
+};
+
+export type NodeCrypto = {
+    createCipheriv(algorithm: string, key: Uint8Array, iv: Uint8Array, options: object): NodeCipher;
+    createDecipheriv(algorithm: string, key: Uint8Array, iv: Uint8Array, options: object): NodeCipher;
+    scrypt(
+        password: Uint8Array,
+        salt: Uint8Array,
+        keylen: number,
+        options: { N: number; r: number; p: number; maxmem: number },
+        callback: (err: Error | null, key: Uint8Array) => void,
+    ): void;
+    // Node.js 24.7 and later
+    argon2?: (
+        algorithm: string,
+        parameters: {
+            message: Uint8Array;
+            nonce: Uint8Array;
+            parallelism: number;
+            tagLength: number;
+            memory: number;
+            passes: number;
+        },
+        callback: (err: Error | null, key: Uint8Array) => void,
+    ) => void;
+};
+
+let nodeCrypto: Promise<NodeCrypto> | undefined;
+
+/**
+ * Load Node's `crypto` module on first use, so other runtimes can still use the WebCrypto features
+ * @param feature What needs the module, for the error message if it is unavailable
+ */
+export function loadNodeCrypto(feature: string): Promise<NodeCrypto> {
+    if (!nodeCrypto) {
+        // a variable specifier keeps bundlers from resolving it for non-Node targets
+        const specifier = 'node:crypto';
+        nodeCrypto = import(specifier) as Promise<NodeCrypto>;
+    }
+    return nodeCrypto.catch(() => {
+        throw new Error(`${feature} requires the Node.js crypto module`);
+    });
+}
@@ -1,90 +1,1303 @@
-import { definePlugin } from '@zenstackhq/orm';
+import type { ClientContract } from '@zenstackhq/orm';
+import { AnyNullClass, DbNullClass, definePlugin, JsonNullClass } from '@zenstackhq/orm';
 import type { FieldDef, ModelDef, SchemaDef } from '@zenstackhq/orm/schema';
+import { applyMask, evaluateAccessExpression, getReferencedFields } from './access.js';
+import { getAlgorithm } from './algorithms.js';
+import { encodeAssociatedData, getRowIds } from './associated-data.js';
+import { Batcher, runConcurrently } from './batch.js';
+import { BlindIndexer } from './blind-index.js';
+import { getModelDelegate } from './client.js';
 import { Decrypter } from './decrypter.js';
+import { EncryptedValue } from './encrypted-value.js';
 import { Encrypter } from './encrypter.js';
-import type { CustomEncryption, EncryptionConfig, SimpleEncryption } from './types.js';
-import { isCustomEncryption } from './types.js';
-import { deriveKey } from './utils.js';
+import { EnvelopeCipher } from './envelope.js';
+import {
+    DecryptionError,
+    EncryptedDataError,
+    SchemaValidationError,
+    UnsupportedEncryptedFilterError,
+} from './errors.js';
+import type { KeyDerivation } from './kdf.js';
+import { validateKeyDerivation } from './kdf.js';
+import { loadKeySet, watchKeyFile } from './key-source.js';
+import {
+    deserializeValue,
+    fromStoredValue,
+    getDefaultValueType,
+    isStoredEncrypted,
+    serializeValue,
+    toStoredValue,
+} from './serialization.js';
+import {
+    getBlindIndexField,
+    getCiphertextFieldName,
+    getDecryptForExpression,
+    getEncryptionReachableModels,
+    getFieldAlgorithm,
+    getFieldKeyId,
+    getFieldMask,
+    getEncryptedTypeDefFields,
+    getEncryptedTypeDefs,
+    getOwnEncryptedFields,
+    getStorageFieldName,
+    isDeterministicField,
+    getEncryptedAttribute,
+    isEncryptableField,
+    isSearchableField,
+    storesEncryptedValues,
+} from './schema.js';
+import type {
+    AuditedValue,
+    CustomEncryption,
+    DecryptionContext,
+    EncryptionConfig,
+    EncryptionContext,
+    KeyProviderEncryption,
+    KeySet,
+    KeySourceEncryption,
+    NamedKey,
+    SimpleEncryption,
+} from './types.js';
+import { isCustomEncryption, isKeyProviderEncryption, isKeySourceEncryption } from './types.js';
+import type { AssociatedData, AssociatedDataResolver, EncryptionMeta } from './utils.js';
+import { validateEncryptedSchema } from './validation.js';
+import {
+    ALGORITHM,
+    DETERMINISTIC_ALGORITHM,
+    deriveKey,
+    deriveSubkey,
+    getKeyDigest,
+    readEncryptionMeta,
+} from './utils.js';
 
-const ENCRYPTED_ATTRIBUTE = '@encrypted';
-const warnedNonStringFields = new Set<string>();
+const BLIND_INDEX_KEY_LABEL = 'zenstack-encryption:blind-index';
+const DEFAULT_CONCURRENCY = 16;
+const AGGREGATE_KEYS = ['_min', '_max', '_avg', '_sum'];
 
 /**
- * Check if a field has the @encrypted attribute
+ * State of the query being processed
  */
-function isEncryptedField(field: FieldDef): boolean {
-    return field.attributes?.some((attr) => attr.name === ENCRYPTED_ATTRIBUTE) ?? false;
+type QueryContext = {
+    model: string;
+    operation: string;
+
+    /**
+     * The auth context of the client performing the query
+     */
+    auth: unknown;
+
+    /**
+     * Values encrypted and decrypted by the query, reported to the audit hooks once it completes
+     */
+    encrypted: AuditedValue[];
+    decrypted: AuditedValue[];
+
+    /**
+     * Values of `encrypted` whose row ids aren't known until the write generates
+     * them, with the row being written and the ciphertext, to fill them in after it
+     */
+    unidentified: { audited: AuditedValue; row: Record<string, unknown>; encrypted: string }[];
+
+    /**
+     * Reports values revealed after the query has been, shared by its lazily
+     * decrypted values so `revealAll` reports them together
+     */
+    reportReveals?: (values: AuditedValue[]) => Promise<void>;
+
+    /**
+     * Pending encryption and decryption of values, run together by `runQueryTasks`
+     */
+    tasks: (() => Promise<void>)[];
+};
+
+export const PLUGIN_ID = 'encryption';
+
+/**
+ * Internal access to a plugin instance's encryption, used by utilities such as `reencrypt`
+ */
+export type EncryptionHandle = {
+    /**
+     * Whether the key depends on the row being encrypted (a key resolver is configured)
+     */
+    resolvesKeysPerRow: boolean;
+
+    /**
+     * Id of the key a value is encrypted with (key digest, or KEK id with a key provider)
+     */
+    getPrimaryKeyId(context: EncryptionContext): Promise<string>;
+
+    /**
+     * Whether a value with the given metadata is encrypted as configured: with the
+     * field's cipher, under its field subkey, and bound to associated data
+     * (its key is checked against {@link getPrimaryKeyId} separately)
+     */
+    isEncryptionCurrent(model: string, field: FieldDef, meta: EncryptionMeta): boolean;
+
+    /**
+     * Decrypt a stored field value read from a row, restoring its original type
+     */
+    decryptField(
+        schema: SchemaDef,
+        model: string,
+        field: FieldDef,
+        stored: unknown,
+        row: Record<string, unknown>,
+    ): Promise<unknown>;
+
+    /**
+     * Encrypt write data in place, including blind indexes of searchable fields.
+     * `row` is handed to the key resolver instead of `data` when given.
+     */
+    encryptData(
+        schema: SchemaDef,
+        model: string,
+        data: Record<string, unknown>,
+        auth: unknown,
+        row?: Record<string, unknown>,
+    ): Promise<void>;
+};
+
+const encryptionHandles = new WeakMap<object, EncryptionHandle>();
+
+/**
+ * Get the encryption handle of a plugin created by {@link encryption}
+ */
+function getEncryptionHandle(plugin: object): EncryptionHandle | undefined {
+    return encryptionHandles.get(plugin);
 }
 
-/**
- * Warn once if @encrypted is applied to a non-String field
- */
-function warnIfNonStringEncrypted(modelName: string, fieldName: string, field: FieldDef): void {
-    if (isEncryptedField(field) && field.type !== 'String') {
-        const key = `${modelName}.${fieldName}`;
-        if (!warnedNonStringFields.has(key)) {
-            warnedNonStringFields.add(key);
-            console.warn(
-                `@encrypted is only supported on String fields. ${key} (type: ${field.type}) will be ignored.`,
-            );
+/**
+ * Get the encryption handle of the plugin installed on a client
+ */
+export function getClientEncryptionHandle<Schema extends SchemaDef>(client: ClientContract<Schema>): EncryptionHandle {
+    const plugin = client.$options.plugins?.find((p) => p.id === PLUGIN_ID);
+    const handle = plugin ? getEncryptionHandle(plugin) : undefined;
+    if (!handle) {
+        throw new Error('The client does not have the encryption plugin installed');
+    }
+    return handle;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// nested write operations whose items hold write records under these keys (besides `create`)
+const NESTED_WRITE_RECORD_KEYS: Record<string, string[]> = {
+    createMany: ['data'],
+    update: ['data'],
+    updateMany: ['data'],
+    upsert: ['create', 'update'],
+    connectOrCreate: ['create'],
+};
+
+/**
+ * Split a nested `update` into its filter and data. To-many relations take
+ * `{ where, data }`; to-one relations also take the data itself, e.g.
+ * `author: { update: { name: 'x' } }`.
+ */
+function splitNestedUpdate(
+    model: ModelDef | undefined,
+    update: Record<string, unknown>,
+): { where?: Record<string, unknown>; data: Record<string, unknown> } {
+    // a `data` key is the model's own field if it has one and no `where` is given
+    const wrapped = isPlainObject(update['data']) && (!model?.fields['data'] || 'where' in update);
+    if (!wrapped) {
+        return { data: update };
+    }
+    const where = update['where'];
+    return { where: isPlainObject(where) ? where : undefined, data: update['data'] as Record<string, unknown> };
+}
+
+/**
+ * Get the records written by the nested write operations of a relation field,
+ * with the filter of the row for updates that have one
+ */
+function getNestedWriteRecords(
+    model: ModelDef | undefined,
+    writes: Record<string, unknown>,
+): { where?: Record<string, unknown>; data: Record<string, unknown> }[] {
+    const toItems = (value: unknown) => (Array.isArray(value) ? value : [value]).filter(isPlainObject);
+    const records: { where?: Record<string, unknown>; data: Record<string, unknown> }[] = [];
+    for (const [op, value] of Object.entries(writes)) {
+        const recordKeys = NESTED_WRITE_RECORD_KEYS[op];
+        if (op === 'create') {
+            records.push(...toItems(value).map((data) => ({ data })));
+        } else if (op === 'update') {
+            records.push(...toItems(value).map((item) => splitNestedUpdate(model, item)));
+        } else if (recordKeys) {
+            for (const item of toItems(value)) {
+                records.push(...recordKeys.flatMap((key) => toItems(item[key]).map((data) => ({ data }))));
+            }
+        }
+    }
+    return records;
+}
+
+/**
+ * Shallow-copy an object, replacing the given keys with a copy of their values
+ */
+function copyKeys(
+    value: Record<string, unknown>,
+    keys: string[],
+    copy: (value: unknown) => unknown,
+): Record<string, unknown> {
+    const result = { ...value };
+    for (const key of keys) {
+        if (key in value) {
+            result[key] = copy(value[key]);
+        }
+    }
+    return result;
+}
+
+/**
+ * Copy write args for the plugin to modify. Only the objects it writes to are
+ * copied: the args, write records and nested write operations. Field values
+ * (Date, BigInt, Decimal, Uint8Array, Json values, Json null markers, ...),
+ * filters and projections are shared with the original, which is left untouched.
+ */
+function copyWriteArgs(schema: SchemaDef, modelName: string, args: Record<string, unknown>): Record<string, unknown> {
+    return copyKeys(args, ['data', 'create', 'update'], (value) => copyWriteRecords(schema, modelName, value));
+}
+
+/**
+ * Copy a write record, or a list of them, and the nested writes of its relation fields
+ */
+function copyWriteRecords(schema: SchemaDef, modelName: string, value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map((item) => copyWriteRecords(schema, modelName, item));
+    }
+    if (!isPlainObject(value)) {
+        return value;
+    }
+    const model = schema.models[modelName];
+    const result = { ...value };
+    for (const [key, fieldValue] of Object.entries(value)) {
+        const field = model?.fields[key];
+        if (field?.relation && isPlainObject(fieldValue)) {
+            result[key] = copyNestedWrites(schema, field.type, fieldValue);
+        }
+    }
+    return result;
+}
+
+/**
+ * Copy the nested write operations of a relation field
+ */
+function copyNestedWrites(
+    schema: SchemaDef,
+    modelName: string,
+    writes: Record<string, unknown>,
+): Record<string, unknown> {
+    const result = { ...writes };
+    for (const [op, value] of Object.entries(writes)) {
+        const recordKeys = NESTED_WRITE_RECORD_KEYS[op];
+        if (op === 'create') {
+            result[op] = copyWriteRecords(schema, modelName, value);
+        } else if (
+            op === 'update' &&
+            isPlainObject(value) &&
+            splitNestedUpdate(schema.models[modelName], value).data === value
+        ) {
+            // the to-one shorthand holds the data itself
+            result[op] = copyWriteRecords(schema, modelName, value);
+        } else if (recordKeys) {
+            const copyItem = (item: unknown) =>
+                isPlainObject(item)
+                    ? copyKeys(item, recordKeys, (records) => copyWriteRecords(schema, modelName, records))
+                    : item;
+            result[op] = Array.isArray(value) ? value.map(copyItem) : copyItem(value);
+        }
+    }
+    return result;
+}
+
+/**
+ * Check if a value is one of the ORM's Json null markers, which must be written as-is
+ */
+function isJsonNullValue(value: unknown): boolean {
+    return value instanceof DbNullClass || value instanceof JsonNullClass || value instanceof AnyNullClass;
+}
+
+/**
+ * Check if a field filter operator only tests for null, which works on encrypted values.
+ * Case-insensitive `mode` counts as a value test: neither ciphertexts nor blind indexes can honor it.
+ */
+function isNullTest(op: string, operand: unknown): boolean {
+    if (op === 'mode') return operand !== 'insensitive';
+    if (op !== 'equals' && op !== 'not') return false;
+    if (operand === null || isJsonNullValue(operand)) return true;
+    return isPlainObject(operand) && getValueTests(operand).length === 0;
+}
+
+/**
+ * Get the operators of a field filter that test values rather than null, e.g.
+ * `['contains']`. A filter that is a value itself tests for equality.
+ */
+function getValueTests(filter: unknown): string[] {
+    if (filter === null || isJsonNullValue(filter)) return [];
+    if (!isPlainObject(filter)) return ['equals'];
+    return Object.entries(filter)
+        .filter(([op, operand]) => !isNullTest(op, operand))
+        .map(([op]) => op);
+}
+
+/**
+ * Get the values a where clause matches fields by equality, e.g. `{ tenantId: 'acme' }`
+ * of `{ tenantId: 'acme', nationalId: '1' }`, which stand in for the row when its filter
+ * values are encrypted
+ */
+function getEqualityConditions(model: ModelDef, where: Record<string, unknown>): Record<string, unknown> {
+    const row: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(where)) {
+        if (!model.fields[key] || model.fields[key].relation) continue;
+        const operand = isPlainObject(value) && Object.keys(value).length === 1 ? value['equals'] : value;
+        if (operand !== null && operand !== undefined && (typeof operand !== 'object' || operand instanceof Date)) {
+            row[key] = operand;
+        }
+    }
+    return row;
+}
+
+/**
+ * Get the fields of a model referred to by the `decryptFor` conditions of the
+ * encrypted values it stores, which must be read to evaluate them
+ */
+function getDecryptForFields(schema: SchemaDef, modelName: string): string[] {
+    const model = schema.models[modelName]!;
+    const referenced = new Set<string>();
+    const visit = (fields: FieldDef[], seen: Set<string>) => {
+        for (const field of fields) {
+            const condition = isEncryptableField(field) ? getDecryptForExpression(field) : undefined;
+            if (condition) {
+                getReferencedFields(condition).forEach((name) => referenced.add(name));
+            }
+            const typeDef = schema.typeDefs?.[field.type];
+            if (typeDef && !seen.has(field.type)) {
+                visit(Object.values(typeDef.fields), new Set([...seen, field.type]));
+            }
+        }
+    };
+    visit([...getOwnEncryptedFields(schema, modelName), ...getEncryptedTypeDefFields(schema, modelName)], new Set());
+    return [...referenced].filter((name) => model.fields[name] && !model.fields[name].relation);
+}
+
+/**
+ * Get the encrypted fields of a model that have a storage field, paired with it
+ */
+function getStorageFields(model: ModelDef): [string, string][] {
+    return Object.values(model.fields).flatMap((field) => {
+        const storageField = isEncryptableField(field) ? getStorageFieldName(field) : undefined;
+        return storageField === undefined ? [] : [[field.name, storageField] as [string, string]];
+    });
+}
+
+/**
+ * Creates an encryption plugin for ZenStack ORM
+ *
+ * @param config Encryption configuration (simple or custom)
+ * @returns A runtime plugin that handles field encryption/decryption. With a
+ * `keySource`, its `reloadKeys()` reloads the keys.
+ */
+export function encryption<Schema extends SchemaDef>(config: EncryptionConfig) {
+    if (isCustomEncryption(config) && config.allowPlaintextRead) {
+        throw new Error('allowPlaintextRead is not supported with custom encryption');
+    }
+    if (isCustomEncryption(config) && config.associatedData) {
+        throw new Error('associatedData is not supported with custom encryption');
+    }
+    if (!isCustomEncryption(config) && config.algorithm !== undefined) {
+        // reject unknown algorithms up front
+        getAlgorithm(config.algorithm);
+    }
+
+    if (!isCustomEncryption(config)) {
+        for (const kdf of [...(config.kdf ? [config.kdf] : []), ...(config.previousKdfs ?? [])]) {
+            validateKeyDerivation(kdf);
+        }
+    }
+
+    if (config.concurrency !== undefined && !(Number.isInteger(config.concurrency) && config.concurrency > 0)) {
+        throw new Error('concurrency must be a positive integer');
+    }
+
+    if (isKeySourceEncryption(config) && config.reloadInterval !== undefined && !(config.reloadInterval > 0)) {
+        throw new Error('reloadInterval must be a positive number of milliseconds');
+    }
+
+    const logger = config.logger ?? console;
+    const onDecryptError = config.onDecryptError ?? 'keep';
+    let encrypter: Encrypter | undefined;
+    let decrypter: Decrypter | undefined;
+    let blindIndexer: BlindIndexer | undefined;
+    let envelope: EnvelopeCipher | undefined;
+    let keyProviderConfig: KeyProviderEncryption | undefined;
+    let simpleConfig: SimpleEncryption | KeySourceEncryption | undefined;
+    // encrypters for keys returned by the key resolver, by key digest
+    let resolvedEncrypters = new Map<string, Encrypter>();
+    // encrypters for the current named keys, by key id
+    let namedEncrypters = new Map<string, Encrypter>();
+    let namedKeys: Record<string, NamedKey> =
+        isCustomEncryption(config) || isKeyProviderEncryption(config) || isKeySourceEncryption(config)
+            ? {}
+            : (config.keys ?? {});
+    // digest of the primary key, to report key changes on reload
+    let primaryDigest: string | undefined;
+    // reloads of a key source run one at a time, in order
+    let pendingReload: Promise<void> = Promise.resolve();
+    let stopKeyReload: (() => void) | undefined;
+    let customEncryption: CustomEncryption | undefined;
+    let initialized = false;
+    let initPromise: Promise<void> | undefined;
+    const kdf = isCustomEncryption(config) ? undefined : config.kdf;
+    const previousKdfs = isCustomEncryption(config) ? [] : (config.previousKdfs ?? []);
+    // how lazily decrypted values are serialized, if enabled
+    const lazyJson = config.lazyDecrypt
+        ? ((config.lazyDecrypt === true ? undefined : config.lazyDecrypt.json) ?? 'redacted')
+        : undefined;
+    // values of custom encryption's batch functions, collected per turn of the event loop
+    const encryptBatcher =
+        isCustomEncryption(config) && config.encryptMany ? new Batcher(config.encryptMany) : undefined;
+    const decryptBatcher =
+        isCustomEncryption(config) && config.decryptMany ? new Batcher(config.decryptMany) : undefined;
+    // whether reads must select the ids of rows with encrypted fields
+    const needsRowIds = config.associatedData === 'row' || config.onDecrypt !== undefined;
+    // keys derived from string secrets (slow with passphrase KDFs), by secret
+    const derivedSecrets = new Map<string, Promise<Uint8Array>>();
+    // the schema validation error of each schema the plugin is used with, undefined if valid
+    let validatedSchemas = new WeakMap<SchemaDef, SchemaValidationError | undefined>();
+
+    /**
+     * Validate the schema's use of @encrypted, once per schema
+     */
+    function assertValidSchema(schema: SchemaDef): void {
+        if (!validatedSchemas.has(schema)) {
+            const problems = validateEncryptedSchema(schema, {
+                keyIds: Object.keys(namedKeys),
+                blindIndex: !isCustomEncryption(config) || config.blindIndex !== undefined,
+                stableBlindIndex: !isKeySourceEncryption(config) || config.blindIndexKey !== undefined,
+            });
+            validatedSchemas.set(schema, problems.length > 0 ? new SchemaValidationError(problems) : undefined);
+        }
+        const error = validatedSchemas.get(schema);
+        if (error) throw error;
+    }
+
+    // key ids of a key source aren't known until its keys are loaded
+    if (config.schema && !isKeySourceEncryption(config)) {
+        assertValidSchema(config.schema);
+    }
+
+    /**
+     * Derive a key input with the configured KDF
+     */
+    function deriveConfiguredKey(input: string | Uint8Array): Promise<Uint8Array> {
+        if (typeof input !== 'string') {
+            return deriveKey(input);
+        }
+        let key = derivedSecrets.get(input);
+        if (!key) {
+            key = deriveKey(input, kdf);
+            derivedSecrets.set(input, key);
+        }
+        return key;
+    }
+
+    /**
+     * Derive the decryption keys of key inputs. String secrets are also derived with
+     * the previous KDFs, and with SHA-256 if the KDF is another, so data written
+     * before adopting it still decrypts.
+     */
+    async function deriveDecryptionKeys(inputs: (string | Uint8Array)[]): Promise<Uint8Array[]> {
+        const keys = await Promise.all(inputs.map(deriveConfiguredKey));
+        const legacyKdfs: KeyDerivation[] = [
+            ...(kdf && kdf.algorithm !== 'sha256' ? [{ algorithm: 'sha256' as const }] : []),
+            ...previousKdfs,
+        ];
+        const secrets = inputs.filter((input) => typeof input === 'string');
+        const legacyKeys = await Promise.all(
+            secrets.flatMap((secret) => legacyKdfs.map((legacyKdf) => deriveKey(secret, legacyKdf))),
+        );
+        return [...keys, ...legacyKeys];
+    }
+
+    async function ensureInitialized() {
+        if (initialized) return;
+        if (initPromise) return initPromise;
+
+        initPromise = (async () => {
+            if (isCustomEncryption(config)) {
+                customEncryption = config;
+            } else if (isKeyProviderEncryption(config)) {
+                keyProviderConfig = config;
+                const prevKeys = await deriveDecryptionKeys(config.previousKeys ?? []);
+                envelope = new EnvelopeCipher(config.keyProvider, {
+                    ttl: config.dataKeyTtl,
+                    legacyDecrypter: prevKeys.length > 0 ? new Decrypter(prevKeys) : undefined,
+                });
+                if (config.blindIndexKey) {
+                    blindIndexer = new BlindIndexer(await deriveConfiguredKey(config.blindIndexKey));
+                }
+            } else if (isKeySourceEncryption(config)) {
+                simpleConfig = config;
+                await applyKeys(await loadKeySet(config.keySource));
+                startKeyReload(config);
+            } else {
+                simpleConfig = config as SimpleEncryption;
+                await applyKeys(simpleConfig);
+            }
+            initialized = true;
+        })();
+
+        // let a key source that failed to load be retried
+        initPromise.catch(() => {
+            if (!initialized) initPromise = undefined;
+        });
+        return initPromise;
+    }
+
+    /**
+     * Derive the keys of a key set and put them in use. Everything is derived
+     * first and swapped in without yielding, so no query sees a mix of old and
+     * new keys; queries in flight finish with the values they already encrypted.
+     */
+    async function applyKeys(keySet: KeySet): Promise<void> {
+        const nextNamedKeys = keySet.keys ?? {};
+        const [primaryKey, ...otherKeys] = await deriveDecryptionKeys([
+            keySet.key,
+            ...(keySet.previousKeys ?? []),
+            ...(keySet.keyring ?? []),
+            ...Object.values(nextNamedKeys).flatMap((named) => [named.key, ...(named.previousKeys ?? [])]),
+        ]);
+        const nextNamedEncrypters = new Map<string, Encrypter>();
+        for (const [keyId, named] of Object.entries(nextNamedKeys)) {
+            nextNamedEncrypters.set(keyId, new Encrypter(await deriveConfiguredKey(named.key)));
+        }
+        const indexKey = simpleConfig!.blindIndexKey
+            ? await deriveConfiguredKey(simpleConfig!.blindIndexKey)
+            : await deriveSubkey(primaryKey!, BLIND_INDEX_KEY_LABEL);
+        const digest = await getKeyDigest(primaryKey!);
+
+        const previousDigest = primaryDigest;
+        const keyIdsChanged = Object.keys(nextNamedKeys).join() !== Object.keys(namedKeys).join();
+        encrypter = new Encrypter(primaryKey!);
+        decrypter = new Decrypter([primaryKey!, ...otherKeys]);
+        blindIndexer = new BlindIndexer(indexKey);
+        namedKeys = nextNamedKeys;
+        namedEncrypters = nextNamedEncrypters;
+        resolvedEncrypters = new Map();
+        primaryDigest = digest;
+        if (keyIdsChanged) {
+            // key ids fields select may have been added or removed
+            validatedSchemas = new WeakMap();
+        }
+
+        if (previousDigest !== undefined && previousDigest !== digest && isKeySourceEncryption(config)) {
+            await config.onKeyChange?.({ previousDigest, digest, timestamp: new Date() });
+        }
+    }
+
+    /**
+     * Reload the keys of the key source and put them in use. Loads the keys
+     * for the first time if the plugin hasn't been used yet.
+     */
+    async function reloadKeys(): Promise<void> {
+        if (!isKeySourceEncryption(config)) {
+            throw new Error('reloadKeys requires a keySource in the encryption config');
+        }
+        if (!initialized) {
+            return ensureInitialized();
+        }
+        const { keySource } = config;
+        const reload = pendingReload.then(async () => applyKeys(await loadKeySet(keySource)));
+        pendingReload = reload.catch(() => {});
+        return reload;
+    }
+
+    /**
+     * Reload the keys of a key source on an interval, and when its file changes
+     */
+    function startKeyReload({ keySource, reloadInterval }: KeySourceEncryption): void {
+        const reload = () => {
+            reloadKeys().catch((error: unknown) => {
+                logger.warn(`Failed to reload encryption keys: ${(error as Error).message}`);
+            });
+        };
+        const stops: (() => void)[] = [];
+        let stopped = false;
+
+        if (reloadInterval !== undefined) {
+            const timer = setInterval(reload, reloadInterval);
+            // don't keep the process alive
+            (timer as unknown as { unref?(): void }).unref?.();
+            stops.push(() => clearInterval(timer));
+        }
+        if (typeof keySource !== 'function' && keySource.watch !== false) {
+            void watchKeyFile(keySource.file, reload).then(
+                (stop) => (stopped ? stop() : stops.push(stop)),
+                (error: unknown) => logger.warn(`Failed to watch ${keySource.file}: ${(error as Error).message}`),
+            );
+        }
+
+        stopKeyReload = () => {
+            stopped = true;
+            stops.splice(0).forEach((stop) => stop());
+        };
+    }
+
+    /**
+     * Get the encrypter for a value: the resolved key's, the field's named key's, or the primary one
+     */
+    async function getEncrypter(context: EncryptionContext): Promise<Encrypter> {
+        // the keys in use now, should they be reloaded while the resolved key is derived
+        const encrypters = resolvedEncrypters;
+        const resolvedDecrypter = decrypter!;
+        const resolved = await simpleConfig?.keyResolver?.(context);
+        if (resolved === undefined) {
+            const keyId = getFieldKeyId(context.field);
+            if (keyId === undefined) {
+                return encrypter!;
+            }
+            const named = namedEncrypters.get(keyId);
+            if (!named) {
+                throw new Error(`Unknown key id "${keyId}" of ${context.model}.${context.field.name}`);
+            }
+            return named;
+        }
+
+        const key = await deriveConfiguredKey(resolved);
+        const digest = await getKeyDigest(key);
+        let resolvedEncrypter = encrypters.get(digest);
+        if (!resolvedEncrypter) {
+            for (const decryptionKey of await deriveDecryptionKeys([resolved])) {
+                await resolvedDecrypter.addKey(decryptionKey);
+            }
+            resolvedEncrypter = new Encrypter(key);
+            encrypters.set(digest, resolvedEncrypter);
+        }
+        return resolvedEncrypter;
+    }
+
+    /**
+     * Get the associated data to bind a new value to, per the `associatedData` option.
+     * Deterministic values (compared with filter values) and values of rows whose
+     * ids aren't known yet, e.g. on create, are bound to their field only.
+     */
+    function getBinding(
+        modelName: string,
+        model: ModelDef,
+        field: FieldDef,
+        row: Record<string, unknown>,
+    ): AssociatedData | undefined {
+        if (!config.associatedData) return undefined;
+        const ids =
+            config.associatedData === 'row' && !isDeterministicField(field) ? getRowIds(model, row) : undefined;
+        return ids
+            ? { scheme: 'row', data: encodeAssociatedData(modelName, field.name, ids) }
+            : { scheme: 'field', data: encodeAssociatedData(modelName, field.name) };
+    }
+
+    /**
+     * Resolve the associated data a stored value is bound to, from the row it was read from
+     */
+    function getBindingResolver(
+        modelName: string,
+        model: ModelDef,
+        field: FieldDef,
+        row: Record<string, unknown>,
+    ): AssociatedDataResolver {
+        return (scheme) => {
+            if (scheme === 'field') {
+                return encodeAssociatedData(modelName, field.name);
+            }
+            const ids = scheme === 'row' ? getRowIds(model, row) : undefined;
+            return ids && encodeAssociatedData(modelName, field.name, ids);
+        };
+    }
+
+    /**
+     * Get the cipher a field's new values are encrypted with. Deterministic fields
+     * use AES-GCM unless the field names another cipher (which is rejected).
+     */
+    function getValueAlgorithm(field: FieldDef): string | undefined {
+        const fieldAlgorithm = getFieldAlgorithm(field);
+        if (fieldAlgorithm !== undefined || isDeterministicField(field) || isCustomEncryption(config)) {
+            return fieldAlgorithm;
+        }
+        return config.algorithm;
+    }
+
+    /**
+     * Get the label of the subkey a field's values are encrypted with, if `perFieldKeys` is on.
+     * Inherited fields use the declaring model's, so sub-models filter alike.
+     */
+    function getFieldSubkey(model: string, field: FieldDef): string | undefined {
+        return simpleConfig?.perFieldKeys ? `${field.originModel ?? model}.${field.name}` : undefined;
+    }
+
+    async function encryptValue(
+        model: string,
+        field: FieldDef,
+        value: unknown,
+        row: Record<string, unknown>,
+        auth: unknown,
+        associatedData?: AssociatedData,
+    ): Promise<string> {
+        const { plain, type } = serializeValue(value, field.type);
+        const context: EncryptionContext = { model, field, row, auth };
+        if (customEncryption) {
+            return encryptBatcher
+                ? encryptBatcher.add({ model, field, plain, context })
+                : customEncryption.encrypt(model, field, plain, context);
+        }
+        if (envelope) {
+            if (isDeterministicField(field)) {
+                throw new Error(
+                    `Deterministic encryption of ${model}.${field.name} is not supported with a key provider`,
+                );
+            }
+            const scope = keyProviderConfig!.dataKeyScope;
+            return envelope.encrypt(plain, {
+                scope: typeof scope === 'function' ? scope(context) : undefined,
+                algorithm: getValueAlgorithm(field),
+                type,
+                associatedData,
+            });
+        }
+        const valueEncrypter = await getEncrypter(context);
+        return valueEncrypter.encrypt(plain, {
+            algorithm: getValueAlgorithm(field),
+            deterministic: isDeterministicField(field),
+            // inherited fields share the declaring model's IVs, so sub-models filter alike
+            field: `${field.originModel ?? model}.${field.name}`,
+            type,
+            associatedData,
+            subkey: getFieldSubkey(model, field),
+        });
+    }
+
+    /**
+     * Apply the `onDecryptError` policy to a value that failed to decrypt,
+     * returning the value to put in the result
+     */
+    async function handleDecryptError(
+        model: string,
+        field: FieldDef,
+        stored: unknown,
+        encrypted: string,
+        error: unknown,
+    ): Promise<unknown> {
+        let keyId: string | undefined;
+        try {
+            keyId = readEncryptionMeta(encrypted).k;
+        } catch {
+            // malformed data (or a custom ciphertext) has no key id
+        }
+        const decryptionError = new DecryptionError(model, field.name, keyId, error);
+
+        if (typeof onDecryptError === 'function') {
+            return onDecryptError(decryptionError);
+        }
+        if (onDecryptError === 'throw') {
+            throw decryptionError;
+        }
+        const reason = error instanceof EncryptedDataError ? `: ${error.message}` : '';
+        logger.warn(`${decryptionError.message}${reason}`);
+        return onDecryptError === 'null' ? null : stored;
+    }
+
+    async function decryptValue(
+        model: string,
+        field: FieldDef,
+        value: string,
+        getAssociatedData?: AssociatedDataResolver,
+    ): Promise<unknown> {
+        if (customEncryption) {
+            // custom ciphertexts carry no type tag, so restore by field type
+            const plain = await (decryptBatcher
+                ? decryptBatcher.add({ model, field, cipher: value })
+                : customEncryption.decrypt(model, field, value));
+            return deserializeValue(plain, getDefaultValueType(field.type));
+        }
+        const plain = await (envelope ?? decrypter!).decrypt(value, getAssociatedData);
+        return deserializeValue(plain, readEncryptionMeta(value).t);
+    }
+
+    async function blindIndexValue(model: string, field: FieldDef, value: string): Promise<string> {
+        if (customEncryption) {
+            if (!customEncryption.blindIndex) {
+                throw new Error(
+                    `Searchable encrypted field ${model}.${field.name} requires a blindIndex function in the custom encryption config`,
+                );
+            }
+            return customEncryption.blindIndex(model, field, value);
+        }
+        if (!blindIndexer) {
+            throw new Error(
+                `Searchable encrypted field ${model}.${field.name} requires a blindIndexKey in the encryption config`,
+            );
+        }
+        // scope inherited fields to the declaring model so delegate sub-models share indexes
+        return blindIndexer.compute(field.originModel ?? model, field.name, value);
+    }
+
+    const warnedUnsupportedUsages = new Set<string>();
+
+    /**
+     * Reject (or warn about) a use of an encrypted field that can't be answered
+     * from its encrypted values
+     */
+    function reportUnsupportedUsage(model: string, field: string, usage: string): void {
+        const error = new UnsupportedEncryptedFilterError(model, field, usage);
+        if (config.unsupportedFilters !== 'warn') {
+            throw error;
+        }
+        if (!warnedUnsupportedUsages.has(error.message)) {
+            warnedUnsupportedUsages.add(error.message);
+            logger.warn(`${error.message}, the query may return wrong results`);
+        }
+    }
+
+    /**
+     * Check that a filter on an encrypted field only has operators it supports
+     */
+    function checkFieldFilter(model: string, field: string, filter: unknown): void {
+        const tests = getValueTests(filter);
+        if (tests.length > 0) {
+            reportUnsupportedUsage(model, field, `filtering with ${tests.join(', ')}`);
+        }
+    }
+
+    /**
+     * Check that the fields aggregated by `_min`, `_max`, `_avg` or `_sum` (in
+     * aggregations, `having` or `orderBy`) aren't encrypted
+     */
+    function checkAggregates(model: ModelDef, args: Record<string, unknown>, usage: string): void {
+        for (const key of AGGREGATE_KEYS) {
+            const aggregate = args[key];
+            if (!isPlainObject(aggregate)) continue;
+            for (const [fieldName, value] of Object.entries(aggregate)) {
+                const field = model.fields[fieldName];
+                if (field && isEncryptableField(field) && value !== false && value !== undefined) {
+                    reportUnsupportedUsage(model.name, fieldName, `${key} ${usage}`.trim());
+                }
+            }
+        }
+    }
+
+    /**
+     * Check that a query isn't sorted by encrypted fields, including through relations
+     */
+    function checkOrderBy(schema: SchemaDef, modelName: string, orderBy: unknown): void {
+        const model = schema.models[modelName];
+        if (!model) return;
+        for (const item of Array.isArray(orderBy) ? orderBy : [orderBy]) {
+            if (!isPlainObject(item)) continue;
+            checkAggregates(model, item, 'in orderBy');
+            for (const [key, value] of Object.entries(item)) {
+                const field = model.fields[key];
+                if (field?.relation && isPlainObject(value)) {
+                    checkOrderBy(schema, field.type, value);
+                } else if (field && isEncryptableField(field)) {
+                    reportUnsupportedUsage(modelName, key, 'orderBy');
+                }
+            }
+        }
+    }
+
+    /**
+     * Map the equality operators of a field filter through `transform` (blind
+     * indexing or deterministic encryption). Returns the mapped filter and the
+     * remaining operators that cannot be answered from transformed values.
+     */
+    async function mapEqualityFilter(
+        filter: unknown,
+        transform: (value: string) => Promise<string>,
+    ): Promise<{ mapped?: unknown; rest?: Record<string, unknown> }> {
+        if (typeof filter === 'string') {
+            return { mapped: await transform(filter) };
+        }
+        if (!isPlainObject(filter)) {
+            return { rest: filter as Record<string, unknown> };
+        }
+
+        const mapped: Record<string, unknown> = {};
+        const rest: Record<string, unknown> = {};
+        for (const [op, operand] of Object.entries(filter)) {
+            if (op === 'equals' && typeof operand === 'string') {
+                mapped[op] = await transform(operand);
+            } else if ((op === 'in' || op === 'notIn') && Array.isArray(operand)) {
+                mapped[op] = await Promise.all(
+                    operand.map((item) => (typeof item === 'string' ? transform(item) : item)),
+                );
+            } else if (op === 'not' && (typeof operand === 'string' || isPlainObject(operand))) {
+                const inner = await mapEqualityFilter(operand, transform);
+                if (inner.mapped !== undefined) mapped[op] = inner.mapped;
+                if (inner.rest !== undefined) rest[op] = inner.rest;
+            } else {
+                rest[op] = operand;
+            }
+        }
+
+        // `mode` alone is not a filter, unless it asks for a case-insensitive match of the mapped values
+        if (Object.keys(rest).length === 1 && 'mode' in rest && rest['mode'] !== 'insensitive') {
+            delete rest['mode'];
+        }
+
+        return {
+            mapped: Object.keys(mapped).length > 0 ? mapped : undefined,
+            rest: Object.keys(rest).length > 0 ? rest : undefined,
+        };
+    }
+
+    /**
+     * Rewrite a where clause so filters on searchable encrypted fields target
+     * their blind index instead of the (non-deterministic) ciphertext. Filter
+     * values of deterministic fields are encrypted with the equality conditions
+     * of the enclosing levels (`scope`) and this one as the row.
+     */
+    async function rewriteWhere(
+        schema: SchemaDef,
+        modelName: string,
+        where: Record<string, unknown>,
+        auth: unknown,
+        scope: Record<string, unknown> = {},
+    ): Promise<Record<string, unknown>> {
+        const model = schema.models[modelName];
+        if (!model) return where;
+
+        const row = { ...scope, ...getEqualityConditions(model, where) };
+        const result: Record<string, unknown> = {};
+        const extraConditions: Record<string, unknown>[] = [];
+        for (const [key, value] of Object.entries(where)) {
+            // Handle logical combinators, which the conditions of this level still apply to
+            if (key === 'AND' || key === 'OR' || key === 'NOT') {
+                const rewrite = (item: Record<string, unknown>) => rewriteWhere(schema, modelName, item, auth, row);
+                if (Array.isArray(value)) {
+                    result[key] = await Promise.all(value.map((item) => (isPlainObject(item) ? rewrite(item) : item)));
+                } else {
+                    result[key] = isPlainObject(value) ? await rewrite(value) : value;
+                }
+                continue;
+            }
+
+            const field = model.fields[key];
+
+            // Handle searchable encrypted fields
+            if (field && isSearchableField(field) && value !== null && value !== undefined) {
+                const indexField = getBlindIndexField(modelName, model, field);
+                const { mapped, rest } = await mapEqualityFilter(value, (plain) =>
+                    blindIndexValue(modelName, field, plain),
+                );
+                if (mapped !== undefined) result[indexField] = mapped;
+                if (rest !== undefined) {
+                    checkFieldFilter(modelName, key, rest);
+                    result[key] = rest;
+                }
+                continue;
+            }
+
+            // Handle deterministic encrypted fields, which compare by ciphertext
+            if (field && isDeterministicField(field) && value !== null && value !== undefined) {
+                const { mapped, rest } = await mapEqualityFilter(value, (plain) =>
+                    encryptValue(modelName, field, plain, row, auth, getBinding(modelName, model, field, {})),
+                );
+                if (rest !== undefined) {
+                    checkFieldFilter(modelName, key, rest);
+                }
+                if (mapped !== undefined && rest !== undefined) {
+                    // both apply to the same field, so keep the remainder as a separate condition
+                    extraConditions.push({ [key]: rest });
+                }
+                if (mapped !== undefined || rest !== undefined) result[key] = mapped ?? rest;
+                continue;
+            }
+
+            // Other encrypted fields can only be tested for null
+            if (field && isEncryptableField(field)) {
+                checkFieldFilter(modelName, key, value);
+                // ...in their storage field, if they have one
+                result[getCiphertextFieldName(field)] = value;
+                continue;
+            }
+
+            // Handle relation filters
+            if (field?.relation && isPlainObject(value)) {
+                result[key] = await rewriteRelationFilter(schema, field, value, auth);
+                continue;
+            }
+
+            result[key] = value;
+        }
+
+        if (extraConditions.length > 0) {
+            const existing = result['AND'];
+            result['AND'] = [...(Array.isArray(existing) ? existing : existing ? [existing] : []), ...extraConditions];
         }
+        return result;
     }
-}
 
-/**
- * Check if a model has any encrypted fields
- */
-function hasEncryptedFields(model: ModelDef): boolean {
-    return Object.values(model.fields).some(isEncryptedField);
-}
+    async function rewriteRelationFilter(
+        schema: SchemaDef,
+        field: FieldDef,
+        filter: Record<string, unknown>,
+        auth: unknown,
+    ): Promise<Record<string, unknown>> {
+        const filterKeys = field.array ? ['some', 'every', 'none'] : ['is', 'isNot'];
+        if (!field.array && !Object.keys(filter).some((key) => filterKeys.includes(key))) {
+            // to-one relation filtered directly by a where clause
+            return rewriteWhere(schema, field.type, filter, auth);
+        }
 
-/**
- * Creates an encryption plugin for ZenStack ORM
- *
- * @param config Encryption configuration (simple or custom)
- * @returns A runtime plugin that handles field encryption/decryption
- */
-export function encryption<Schema extends SchemaDef>(config: EncryptionConfig) {
-    let encrypter: Encrypter | undefined;
-    let decrypter: Decrypter | undefined;
-    let customEncryption: CustomEncryption | undefined;
-    let initialized = false;
-    let initPromise: Promise<void> | undefined;
+        const result: Record<string, unknown> = { ...filter };
+        for (const key of filterKeys) {
+            const nested = filter[key];
+            if (isPlainObject(nested)) {
+                result[key] = await rewriteWhere(schema, field.type, nested, auth);
+            }
+        }
+        return result;
+    }
 
-    async function ensureInitialized() {
-        if (initialized) return;
-        if (initPromise) return initPromise;
+    /**
+     * Rewrite filters in query args (where, cursor and nested include/select)
+     */
+    async function rewriteQueryArgs(
+        schema: SchemaDef,
+        modelName: string,
+        args: Record<string, unknown>,
+        auth: unknown,
+    ): Promise<Record<string, unknown>> {
+        const model = schema.models[modelName];
+        if (!model) return args;
 
-        initPromise = (async () => {
-            if (isCustomEncryption(config)) {
-                customEncryption = config;
-            } else {
-                const simpleConfig = config as SimpleEncryption;
-                const primaryKey = await deriveKey(simpleConfig.key);
-                const prevKeys = await Promise.all(
-                    (simpleConfig.previousKeys ?? []).map(deriveKey),
-                );
-                encrypter = new Encrypter(primaryKey);
-                decrypter = new Decrypter([primaryKey, ...prevKeys]);
+        const result: Record<string, unknown> = { ...args };
+        for (const key of ['where', 'cursor']) {
+            if (isPlainObject(args[key])) {
+                result[key] = await rewriteWhere(schema, modelName, args[key], auth);
             }
-            initialized = true;
-        })();
+        }
 
-        return initPromise;
+        checkOrderBy(schema, modelName, args['orderBy']);
+        checkAggregates(model, args, '');
+
+        // distinct values of searchable fields are those of their blind index
+        const distinct = args['distinct'];
+        if (typeof distinct === 'string' || Array.isArray(distinct)) {
+            result['distinct'] = (Array.isArray(distinct) ? distinct : [distinct]).map((fieldName: unknown) => {
+                const field = typeof fieldName === 'string' ? model.fields[fieldName] : undefined;
+                if (!field || !isEncryptableField(field) || isDeterministicField(field)) {
+                    return fieldName;
+                }
+                if (isSearchableField(field)) {
+                    return getBlindIndexField(modelName, model, field);
+                }
+                reportUnsupportedUsage(modelName, field.name, 'distinct');
+                return fieldName;
+            });
+        }
+
+        // groups of deterministic values are those of their plaintext
+        const by = args['by'];
+        for (const fieldName of Array.isArray(by) ? by : [by]) {
+            const field = typeof fieldName === 'string' ? model.fields[fieldName] : undefined;
+            if (field && isEncryptableField(field) && !isDeterministicField(field)) {
+                reportUnsupportedUsage(modelName, field.name, 'groupBy');
+            }
+        }
+
+        const having = args['having'];
+        if (isPlainObject(having)) {
+            checkAggregates(model, having, 'in having');
+            for (const [fieldName, filter] of Object.entries(having)) {
+                const field = model.fields[fieldName];
+                if (field && isEncryptableField(field) && getValueTests(filter).length > 0) {
+                    reportUnsupportedUsage(modelName, fieldName, 'having');
+                }
+            }
+        }
+
+        for (const key of ['include', 'select']) {
+            const projection = args[key];
+            if (!isPlainObject(projection)) continue;
+
+            const rewritten: Record<string, unknown> = { ...projection };
+            for (const [fieldName, value] of Object.entries(projection)) {
+                const field = model.fields[fieldName];
+                if (field?.relation && isPlainObject(value)) {
+                    rewritten[fieldName] = await rewriteQueryArgs(schema, field.type, value, auth);
+                }
+            }
+            result[key] = rewritten;
+        }
+
+        return result;
     }
 
-    async function encryptValue(model: string, field: FieldDef, value: string): Promise<string> {
-        if (customEncryption) {
-            return customEncryption.encrypt(model, field, value);
+    /**
+     * Get the fields a query must read from a model's rows to return their
+     * encrypted values: the ids of rows whose values are bound to them, since they
+     * are needed to decrypt, or whose decryption is audited, and the fields
+     * referred to by `decryptFor` conditions
+     */
+    function getRequiredFields(schema: SchemaDef, modelName: string): string[] {
+        const ids = needsRowIds && storesEncryptedValues(schema, modelName) ? schema.models[modelName]!.idFields : [];
+        return [...new Set([...ids, ...getDecryptForFields(schema, modelName)])];
+    }
+
+    /**
+     * Make sure a query reads the fields needed to return encrypted values (see
+     * `getRequiredFields`), and the storage fields of the fields it reads that
+     * have one. Fields that weren't asked for are removed from the result by
+     * `decryptResultData`.
+     */
+    function selectRequiredFields(
+        schema: SchemaDef,
+        modelName: string,
+        args: Record<string, unknown>,
+    ): Record<string, unknown> {
+        const model = schema.models[modelName];
+        if (!model) return args;
+
+        const result: Record<string, unknown> = { ...args };
+        const required = getRequiredFields(schema, modelName);
+        if (required.length > 0) {
+            if (isPlainObject(args['select'])) {
+                result['select'] = { ...args['select'], ...Object.fromEntries(required.map((f) => [f, true])) };
+            }
+            if (isPlainObject(args['omit'])) {
+                result['omit'] = { ...args['omit'], ...Object.fromEntries(required.map((f) => [f, false])) };
+            }
+        }
+        for (const [fieldName, storageField] of getStorageFields(model)) {
+            if (isPlainObject(result['select']) && result['select'][fieldName]) {
+                result['select'] = { ...result['select'], [storageField]: true };
+            }
+            if (isPlainObject(result['omit']) && !result['omit'][fieldName]) {
+                result['omit'] = { ...result['omit'], [storageField]: false };
+            }
+        }
+
+        for (const key of ['include', 'select']) {
+            const projection = result[key];
+            if (!isPlainObject(projection)) continue;
+
+            const rewritten: Record<string, unknown> = { ...projection };
+            for (const [fieldName, value] of Object.entries(projection)) {
+                const field = model.fields[fieldName];
+                if (field?.relation && isPlainObject(value)) {
+                    rewritten[fieldName] = selectRequiredFields(schema, field.type, value);
+                }
+            }
+            result[key] = rewritten;
         }
-        return encrypter!.encrypt(value);
+
+        return result;
     }
 
-    async function decryptValue(model: string, field: FieldDef, value: string): Promise<string> {
-        if (customEncryption) {
-            return customEncryption.decrypt(model, field, value);
+    /**
+     * Rewrite the filters of nested write operations in place
+     */
+    async function rewriteNestedWriteFilters(
+        schema: SchemaDef,
+        modelName: string,
+        data: Record<string, unknown>,
+        auth: unknown,
+    ): Promise<void> {
+        const toItems = (value: unknown) => (Array.isArray(value) ? value : [value]).filter(isPlainObject);
+
+        // operations whose items carry a `where` clause
+        for (const op of ['update', 'updateMany', 'upsert', 'connectOrCreate']) {
+            for (const item of toItems(data[op])) {
+                if (op === 'update' && splitNestedUpdate(schema.models[modelName], item).data === item) continue;
+                if (isPlainObject(item['where'])) {
+                    item['where'] = await rewriteWhere(schema, modelName, item['where'], auth);
+                }
+            }
+        }
+
+        // operations whose items are filters themselves
+        for (const op of ['connect', 'disconnect', 'set', 'delete', 'deleteMany']) {
+            const value = data[op];
+            if (Array.isArray(value)) {
+                data[op] = await Promise.all(
+                    value.map((item) => (isPlainObject(item) ? rewriteWhere(schema, modelName, item, auth) : item)),
+                );
+            } else if (isPlainObject(value)) {
+                data[op] = await rewriteWhere(schema, modelName, value, auth);
+            }
+        }
+    }
+
+    /**
+     * Schedule the encryption of a value on the query, passing the result to `assign`
+     * @param field The field, named by its path for fields of type definitions (e.g. `address.street`)
+     */
+    function scheduleEncryption(
+        modelName: string,
+        model: ModelDef,
+        field: FieldDef,
+        value: unknown,
+        row: Record<string, unknown>,
+        query: QueryContext,
+        assign: (encrypted: string) => void,
+    ): void {
+        query.tasks.push(async () => {
+            const binding = getBinding(modelName, model, field, row);
+            const encrypted = await encryptValue(modelName, field, value, row, query.auth, binding);
+            assign(encrypted);
+            if (config.onEncrypt) {
+                const audited = getAuditedValue(modelName, model, field, row, encrypted);
+                query.encrypted.push(audited);
+                if (audited.id === undefined) query.unidentified.push({ audited, row, encrypted });
+            }
+        });
+    }
+
+    /**
+     * Copy a value typed with a type definition (or a list of them), scheduling the
+     * encryption of its encrypted fields into the copy
+     */
+    function encryptTypeDefValue(
+        schema: SchemaDef,
+        modelName: string,
+        model: ModelDef,
+        typeName: string,
+        path: string,
+        value: unknown,
+        row: Record<string, unknown>,
+        query: QueryContext,
+    ): unknown {
+        if (Array.isArray(value)) {
+            return value.map((item) => encryptTypeDefValue(schema, modelName, model, typeName, path, item, row, query));
         }
-        return decrypter!.decrypt(value);
+        const typeDef = schema.typeDefs?.[typeName];
+        if (!typeDef || !isPlainObject(value)) return value;
+
+        const result = { ...value };
+        for (const [name, inner] of Object.entries(value)) {
+            const field = typeDef.fields[name];
+            if (!field || inner === null || inner === undefined) continue;
+            const fieldAtPath = { ...field, name: `${path}.${name}` };
+            if (isEncryptableField(field) && !isJsonNullValue(inner)) {
+                scheduleEncryption(modelName, model, fieldAtPath, inner, row, query, (encrypted) => {
+                    result[name] = encrypted;
+                });
+            } else if (getEncryptedTypeDefs(schema).has(field.type)) {
+                result[name] = encryptTypeDefValue(
+                    schema,
+                    modelName,
+                    model,
+                    field.type,
+                    fieldAtPath.name,
+                    inner,
+                    row,
+                    query,
+                );
+            }
+        }
+        return result;
     }
 
     /**
@@ -94,30 +1307,77 @@ export function encryption<Schema extends SchemaDef>(config: EncryptionConfig) {
         schema: SchemaDef,
         modelName: string,
         data: Record<string, unknown>,
+        query: QueryContext,
+        // the row handed to the key resolver, captured before values are encrypted
+        row: Record<string, unknown> = { ...data },
     ): Promise<void> {
         const model = schema.models[modelName];
         if (!model) return;
 
         for (const [fieldName, value] of Object.entries(data)) {
-            if (value === null || value === undefined) {
+            const field = model.fields[fieldName];
+            if (!field) continue;
+
+            // Fields with a storage field hold their encrypted values in it; their own
+            // columns are only written to clear them
+            const storageField = isEncryptableField(field) ? getStorageFieldName(field) : undefined;
+            if (storageField !== undefined && value !== undefined) {
+                const operation = isPlainObject(value) && Object.getPrototypeOf(value) === Object.prototype;
+                const operators = operation ? Object.keys(value) : [];
+                if (operators.some((op) => op !== 'set')) {
+                    const usage = `updating with ${operators.join(', ')}`;
+                    throw new UnsupportedEncryptedFilterError(modelName, fieldName, usage);
+                }
+                const plain = operation ? (value as Record<string, unknown>)['set'] : value;
+                if (plain === null || plain === undefined) {
+                    data[fieldName] = null;
+                    data[storageField] = null;
+                    continue;
+                }
+                delete data[fieldName];
+                const storageType = model.fields[storageField]!.type;
+                scheduleEncryption(modelName, model, field, plain, row, query, (encrypted) => {
+                    data[storageField] = toStoredValue(encrypted, storageType);
+                });
                 continue;
             }
 
-            const field = model.fields[fieldName];
-            if (!field) continue;
+            // Clearing a searchable field clears its blind index too
+            if (value === null && isSearchableField(field)) {
+                data[getBlindIndexField(modelName, model, field)] = null;
+                continue;
+            }
+
+            if (value === null || value === undefined) {
+                continue;
+            }
 
-            warnIfNonStringEncrypted(modelName, fieldName, field);
+            // Handle encrypted fields
+            if (isEncryptableField(field) && !isJsonNullValue(value)) {
+                if (isSearchableField(field) && typeof value === 'string') {
+                    const indexField = getBlindIndexField(modelName, model, field);
+                    query.tasks.push(async () => {
+                        data[indexField] = await blindIndexValue(modelName, field, value);
+                    });
+                }
+                scheduleEncryption(modelName, model, field, value, row, query, (encrypted) => {
+                    data[fieldName] = toStoredValue(encrypted, field.type);
+                });
+                continue;
+            }
 
-            // Handle encrypted string fields
-            if (isEncryptedField(field) && typeof value === 'string') {
-                data[fieldName] = await encryptValue(modelName, field, value);
+            // Handle fields typed with a type definition that has encrypted fields
+            if (getEncryptedTypeDefs(schema).has(field.type) && !isJsonNullValue(value)) {
+                const typeName = field.type;
+                data[fieldName] = encryptTypeDefValue(schema, modelName, model, typeName, fieldName, value, row, query);
                 continue;
             }
 
             // Handle relation fields (nested writes)
-            if (field.relation && typeof value === 'object') {
+            if (field.relation && typeof value === 'object' && getEncryptionReachableModels(schema).has(field.type)) {
                 const relatedModel = field.type;
-                await encryptNestedWrites(schema, relatedModel, value as Record<string, unknown>);
+                await encryptNestedWrites(schema, relatedModel, value as Record<string, unknown>, query);
+                await rewriteNestedWriteFilters(schema, relatedModel, value as Record<string, unknown>, query.auth);
             }
         }
     }
@@ -129,115 +1389,245 @@ export function encryption<Schema extends SchemaDef>(config: EncryptionConfig) {
         schema: SchemaDef,
         modelName: string,
         data: Record<string, unknown>,
+        query: QueryContext,
     ): Promise<void> {
-        // Handle create
-        const createData = data['create'];
-        if (createData) {
-            if (Array.isArray(createData)) {
-                for (const item of createData) {
-                    await encryptWriteData(schema, modelName, item as Record<string, unknown>);
-                }
-            } else {
-                await encryptWriteData(schema, modelName, createData as Record<string, unknown>);
-            }
+        for (const { where, data: record } of getNestedWriteRecords(schema.models[modelName], data)) {
+            await encryptWriteData(schema, modelName, record, query, { ...where, ...record });
         }
+    }
 
-        // Handle createMany
-        const createManyData = data['createMany'];
-        if (createManyData && typeof createManyData === 'object') {
-            const createManyItems = (createManyData as Record<string, unknown>)['data'];
-            if (Array.isArray(createManyItems)) {
-                for (const item of createManyItems) {
-                    await encryptWriteData(schema, modelName, item as Record<string, unknown>);
-                }
+    /**
+     * Describe an encrypted value for the audit hooks
+     */
+    function getAuditedValue(
+        modelName: string,
+        model: ModelDef,
+        field: FieldDef,
+        row: Record<string, unknown>,
+        encrypted: string,
+    ): AuditedValue {
+        const ids = getRowIds(model, row);
+        return {
+            model: modelName,
+            field: field.name,
+            id: ids && Object.fromEntries(model.idFields.map((idField, i) => [idField, ids[i]])),
+            keyId: customEncryption ? undefined : readEncryptionMeta(encrypted).k,
+        };
+    }
+
+    /**
+     * Fill in the ids of the rows a write created for the audit hooks, from the
+     * rows it returned (found by the ciphertexts written), or else by looking the
+     * ciphertexts up, bypassing the plugin. Ids stay undefined if a ciphertext
+     * doesn't identify one row, e.g. a deterministic value shared by several.
+     */
+    async function identifyWrittenRows(
+        client: { $unuse(pluginId: string): unknown },
+        schema: SchemaDef,
+        query: QueryContext,
+        result: unknown,
+    ): Promise<void> {
+        const rowsByCiphertext = new Map(query.unidentified.map(({ row, encrypted }) => [encrypted, row]));
+        const ids = new Map<Record<string, unknown>, Record<string, unknown>>();
+        const identify = (model: ModelDef, found: Record<string, unknown>, encrypted: unknown) => {
+            const row = typeof encrypted === 'string' ? rowsByCiphertext.get(encrypted) : undefined;
+            const rowIds = row && getRowIds(model, found);
+            if (row && rowIds) {
+                ids.set(row, Object.fromEntries(model.idFields.map((idField, i) => [idField, rowIds[i]])));
             }
-        }
+        };
 
-        // Handle update
-        const updateData = data['update'];
-        if (updateData) {
-            if (Array.isArray(updateData)) {
-                for (const item of updateData) {
-                    const updateItem = item as Record<string, unknown>;
-                    const itemData = updateItem['data'];
-                    if (itemData) {
-                        await encryptWriteData(schema, modelName, itemData as Record<string, unknown>);
-                    }
+        const visit = (modelName: string, value: unknown) => {
+            const model = schema.models[modelName];
+            for (const item of Array.isArray(value) ? value : [value]) {
+                if (!model || !isPlainObject(item)) continue;
+                for (const [key, fieldValue] of Object.entries(item)) {
+                    const field = model.fields[key];
+                    if (field?.relation) visit(field.type, fieldValue);
+                    else if (field) identify(model, item, fieldValue);
                 }
-            } else {
-                const updateObj = updateData as Record<string, unknown>;
-                const nestedData = updateObj['data'];
-                if (nestedData) {
-                    await encryptWriteData(schema, modelName, nestedData as Record<string, unknown>);
+            }
+        };
+        visit(query.model, result);
+
+        // look the rest up by a String field each, e.g. after createMany or nested creates that weren't returned
+        const lookups = new Map<string, { model: string; field: string; ciphertexts: string[] }>();
+        const looked = new Set<Record<string, unknown>>();
+        for (const { audited, row, encrypted } of query.unidentified) {
+            if (ids.has(row) || looked.has(row)) continue;
+            const model = schema.models[audited.model];
+            const field = model?.fields[audited.field];
+            const column = field && getCiphertextFieldName(field);
+            if (!column || model.fields[column]?.type !== 'String') continue;
+            looked.add(row);
+            const key = `${audited.model}.${column}`;
+            const lookup = lookups.get(key) ?? { model: audited.model, field: column, ciphertexts: [] };
+            lookup.ciphertexts.push(encrypted);
+            lookups.set(key, lookup);
+        }
+        for (const { model: modelName, field, ciphertexts } of lookups.values()) {
+            const model = schema.models[modelName]!;
+            const found = await getModelDelegate(client.$unuse(PLUGIN_ID), modelName).findMany({
+                where: { [field]: { in: ciphertexts } },
+                select: Object.fromEntries([...model.idFields, field].map((name) => [name, true])),
+            });
+            for (const row of found) {
+                if (found.filter((other) => other[field] === row[field]).length === 1) {
+                    identify(model, row, row[field]);
                 }
             }
         }
 
-        // Handle updateMany
-        const updateManyData = data['updateMany'];
-        if (updateManyData) {
-            if (Array.isArray(updateManyData)) {
-                for (const item of updateManyData) {
-                    const updateItem = item as Record<string, unknown>;
-                    const itemData = updateItem['data'];
-                    if (itemData) {
-                        await encryptWriteData(schema, modelName, itemData as Record<string, unknown>);
-                    }
-                }
-            } else {
-                const updateObj = updateManyData as Record<string, unknown>;
-                const nestedData = updateObj['data'];
-                if (nestedData) {
-                    await encryptWriteData(schema, modelName, nestedData as Record<string, unknown>);
-                }
+        for (const { audited, row } of query.unidentified) {
+            audited.id = ids.get(row);
+        }
+    }
+
+    /**
+     * Run a query's pending encryption or decryption with bounded concurrency, or
+     * all at once if they are batched
+     */
+    async function runQueryTasks(query: QueryContext, batched: boolean): Promise<void> {
+        const { tasks } = query;
+        query.tasks = [];
+        await runConcurrently(tasks, batched ? Infinity : (config.concurrency ?? DEFAULT_CONCURRENCY));
+    }
+
+    /**
+     * Report the values a query encrypted and decrypted to the audit hooks, one event each
+     */
+    async function reportAudit(query: QueryContext): Promise<void> {
+        const timestamp = new Date();
+        const { model, operation, auth } = query;
+        if (config.onEncrypt && query.encrypted.length > 0) {
+            await config.onEncrypt({ action: 'encrypt', model, operation, auth, timestamp, values: query.encrypted });
+        }
+        if (config.onDecrypt && query.decrypted.length > 0) {
+            await config.onDecrypt({ action: 'decrypt', model, operation, auth, timestamp, values: query.decrypted });
+        }
+    }
+
+    /**
+     * Check whether the caller may read a field's plaintext: its `decryptFor`
+     * condition and the `canDecrypt` hook must both allow it
+     */
+    async function canDecryptField(context: DecryptionContext): Promise<boolean> {
+        const condition = getDecryptForExpression(context.field);
+        if (condition && evaluateAccessExpression(condition, context) !== true) {
+            return false;
+        }
+        return config.canDecrypt ? (await config.canDecrypt(context)) === true : true;
+    }
+
+    /**
+     * Whether values of a field the caller may not decrypt are masked rather than nulled
+     */
+    function isMasked(field: FieldDef): boolean {
+        return getFieldMask(field) !== undefined || config.mask !== undefined;
+    }
+
+    /**
+     * Mask a value the caller may not decrypt, with the field's mask pattern or
+     * the `mask` hook, or return null
+     */
+    function maskValue(value: unknown, context: DecryptionContext): unknown {
+        const pattern = getFieldMask(context.field);
+        if (pattern !== undefined) {
+            return applyMask(pattern, value);
+        }
+        return config.mask ? config.mask(value, context) : null;
+    }
+
+    /**
+     * Decrypt an encrypted value read from a row, or schedule its decryption on the
+     * query, passing the value to return to `assign`
+     * @param field The field, named by its path for fields of type definitions (e.g. `address.street`)
+     * @param row The row as stored
+     */
+    async function readEncryptedValue(
+        modelName: string,
+        model: ModelDef,
+        field: FieldDef,
+        value: unknown,
+        row: Record<string, unknown>,
+        query: QueryContext,
+        assign: (value: unknown) => void,
+    ): Promise<void> {
+        const context: DecryptionContext = { model: modelName, field, row, auth: query.auth };
+        const allowed = await canDecryptField(context);
+        if (config.allowPlaintextRead && !isStoredEncrypted(value)) {
+            // plaintext written before the field was encrypted, returned as stored
+            config.onPlaintextRead?.(modelName, field.name);
+            const read = async () => (allowed ? value : maskValue(value, context));
+            assign(lazyJson ? new EncryptedValue(read, value, lazyJson) : await read());
+            return;
+        }
+
+        const encrypted = fromStoredValue(value);
+        if (encrypted === undefined) return;
+        if (!allowed && !isMasked(field)) {
+            // no need to decrypt a value the caller won't see
+            assign(null);
+            return;
+        }
+        // revealed values are audited by their EncryptedValue, after the query has been reported
+        const read = async (audit: (audited: AuditedValue) => void = (audited) => query.decrypted.push(audited)) => {
+            let plain: unknown;
+            try {
+                const resolver = getBindingResolver(modelName, model, field, row);
+                plain = await decryptValue(modelName, field, encrypted, resolver);
+            } catch (error) {
+                return handleDecryptError(modelName, field, value, encrypted, error);
+            }
+            if (!allowed) {
+                return maskValue(plain, context);
             }
+            if (config.onDecrypt) {
+                audit(getAuditedValue(modelName, model, field, row, encrypted));
+            }
+            return plain;
+        };
+        if (lazyJson) {
+            query.reportReveals ??= (values) => reportAudit({ ...query, encrypted: [], decrypted: values });
+            assign(new EncryptedValue(read, value, lazyJson, query.reportReveals));
+        } else {
+            query.tasks.push(async () => assign(await read()));
         }
+    }
 
-        // Handle upsert
-        const upsertData = data['upsert'];
-        if (upsertData) {
-            if (Array.isArray(upsertData)) {
-                for (const item of upsertData) {
-                    const upsertItem = item as Record<string, unknown>;
-                    const createPart = upsertItem['create'];
-                    const updatePart = upsertItem['update'];
-                    if (createPart) {
-                        await encryptWriteData(schema, modelName, createPart as Record<string, unknown>);
-                    }
-                    if (updatePart) {
-                        await encryptWriteData(schema, modelName, updatePart as Record<string, unknown>);
-                    }
-                }
-            } else {
-                const upsertObj = upsertData as Record<string, unknown>;
-                const createPart = upsertObj['create'];
-                const updatePart = upsertObj['update'];
-                if (createPart) {
-                    await encryptWriteData(schema, modelName, createPart as Record<string, unknown>);
-                }
-                if (updatePart) {
-                    await encryptWriteData(schema, modelName, updatePart as Record<string, unknown>);
-                }
+    /**
+     * Decrypt the encrypted fields of a value typed with a type definition (or a
+     * list of them) in place
+     */
+    async function readTypeDefValue(
+        schema: SchemaDef,
+        modelName: string,
+        model: ModelDef,
+        typeName: string,
+        path: string,
+        value: unknown,
+        row: Record<string, unknown>,
+        query: QueryContext,
+    ): Promise<void> {
+        if (Array.isArray(value)) {
+            for (const item of value) {
+                await readTypeDefValue(schema, modelName, model, typeName, path, item, row, query);
             }
+            return;
         }
+        const typeDef = schema.typeDefs?.[typeName];
+        if (!typeDef || !isPlainObject(value)) return;
 
-        // Handle connectOrCreate
-        const connectOrCreateData = data['connectOrCreate'];
-        if (connectOrCreateData) {
-            if (Array.isArray(connectOrCreateData)) {
-                for (const item of connectOrCreateData) {
-                    const cocItem = item as Record<string, unknown>;
-                    const createPart = cocItem['create'];
-                    if (createPart) {
-                        await encryptWriteData(schema, modelName, createPart as Record<string, unknown>);
-                    }
-                }
-            } else {
-                const cocObj = connectOrCreateData as Record<string, unknown>;
-                const createPart = cocObj['create'];
-                if (createPart) {
-                    await encryptWriteData(schema, modelName, createPart as Record<string, unknown>);
-                }
+        for (const [name, inner] of Object.entries(value)) {
+            const field = typeDef.fields[name];
+            if (!field || inner === null || inner === undefined) continue;
+            const fieldAtPath = { ...field, name: `${path}.${name}` };
+            if (isEncryptableField(field)) {
+                await readEncryptedValue(modelName, model, fieldAtPath, inner, row, query, (plain) => {
+                    value[name] = plain;
+                });
+            } else if (getEncryptedTypeDefs(schema).has(field.type)) {
+                await readTypeDefValue(schema, modelName, model, field.type, fieldAtPath.name, inner, row, query);
             }
         }
     }
@@ -249,47 +1639,135 @@ export function encryption<Schema extends SchemaDef>(config: EncryptionConfig) {
         schema: SchemaDef,
         modelName: string,
         data: Record<string, unknown>,
+        query: QueryContext,
+        // the query args (select/include/omit) that produced the data, before selectRequiredFields
+        projection?: Record<string, unknown>,
     ): Promise<void> {
         const model = schema.models[modelName];
         if (!model) return;
+        // access conditions see the row as stored
+        const row = { ...data };
 
         for (const [fieldName, value] of Object.entries(data)) {
-            if (value === null || value === undefined) {
+            const field = model.fields[fieldName];
+
+            // Handle encrypted fields, reading the values of those with a storage
+            // field from it (their own columns only hold values not yet encrypted)
+            if (field && isEncryptableField(field)) {
+                const storageField = getStorageFieldName(field);
+                const fromStorage = storageField !== undefined ? data[storageField] : undefined;
+                const stored = fromStorage !== null && fromStorage !== undefined ? fromStorage : value;
+                if (stored === null || stored === undefined) continue;
+                await readEncryptedValue(modelName, model, field, stored, row, query, (plain) => {
+                    data[fieldName] = plain;
+                });
                 continue;
             }
 
-            const field = model.fields[fieldName];
-            if (!field) continue;
+            if (!field || value === null || value === undefined) {
+                continue;
+            }
 
-            // Handle encrypted string fields
-            if (isEncryptedField(field) && typeof value === 'string') {
-                try {
-                    data[fieldName] = await decryptValue(modelName, field, value);
-                } catch {
-                    // If decryption fails, keep original value
-                    console.warn('Failed to decrypt an encrypted field');
-                }
+            // Handle fields typed with a type definition that has encrypted fields
+            if (getEncryptedTypeDefs(schema).has(field.type)) {
+                await readTypeDefValue(schema, modelName, model, field.type, fieldName, value, row, query);
                 continue;
             }
 
             // Handle relation fields (nested data)
-            if (field.relation && value !== null) {
+            if (field.relation && getEncryptionReachableModels(schema).has(field.type)) {
                 const relatedModel = field.type;
+                const nested = isPlainObject(projection?.['select'])
+                    ? projection['select'][fieldName]
+                    : isPlainObject(projection?.['include'])
+                      ? projection['include'][fieldName]
+                      : undefined;
+                const nestedProjection = isPlainObject(nested) ? nested : undefined;
                 if (Array.isArray(value)) {
                     for (const item of value) {
                         if (typeof item === 'object' && item !== null) {
-                            await decryptResultData(schema, relatedModel, item as Record<string, unknown>);
+                            await decryptResultData(
+                                schema,
+                                relatedModel,
+                                item as Record<string, unknown>,
+                                query,
+                                nestedProjection,
+                            );
                         }
                     }
                 } else if (typeof value === 'object') {
-                    await decryptResultData(schema, relatedModel, value as Record<string, unknown>);
+                    await decryptResultData(
+                        schema,
+                        relatedModel,
+                        value as Record<string, unknown>,
+                        query,
+                        nestedProjection,
+                    );
+                }
+            }
+        }
+
+        // remove fields that were only read to return encrypted values
+        if (projection) {
+            const select = projection['select'];
+            const omit = projection['omit'];
+            const storageFields = getStorageFields(model).map(([, storageField]) => storageField);
+            for (const fieldName of [...getRequiredFields(schema, modelName), ...storageFields]) {
+                if (isPlainObject(select) ? !select[fieldName] : isPlainObject(omit) && omit[fieldName]) {
+                    delete data[fieldName];
                 }
             }
         }
     }
 
-    return definePlugin<Schema, Record<string, never>, Record<string, never>>({
-        id: 'encryption',
+    /**
+     * Add the plaintext values left in the row targeted by an `update` to its
+     * data, so they are encrypted along with it
+     */
+    async function encryptPlaintextOnUpdate(
+        client: { $unuse(pluginId: string): unknown },
+        schema: SchemaDef,
+        modelName: string,
+        args: Record<string, unknown>,
+        query: QueryContext,
+    ): Promise<void> {
+        const data = args['data'];
+        if (!isPlainObject(data) || !isPlainObject(args['where'])) return;
+        const fields = getOwnEncryptedFields(schema, modelName).filter(
+            (field) => !(field.name in data) && !(getCiphertextFieldName(field) in data),
+        );
+        if (fields.length === 0) return;
+
+        // read the stored values, bypassing the plugin
+        const columns = new Set(fields.flatMap((field) => [field.name, getCiphertextFieldName(field)]));
+        const row = await getModelDelegate(client.$unuse(PLUGIN_ID), modelName).findUnique({
+            where: args['where'],
+            select: Object.fromEntries([...columns].map((column) => [column, true])),
+        });
+        if (!row) return;
+
+        const plaintext: Record<string, unknown> = {};
+        const cleared: Record<string, unknown> = {};
+        for (const field of fields) {
+            const value = row[field.name];
+            if (value === null || value === undefined || isStoredEncrypted(value)) continue;
+            // the columns of fields with a storage field are cleared, keeping a newer value in the storage field
+            const storageField = getStorageFieldName(field);
+            if (storageField !== undefined) {
+                cleared[field.name] = null;
+                if (row[storageField] !== null && row[storageField] !== undefined) continue;
+            }
+            plaintext[field.name] = value;
+        }
+        if (Object.keys(plaintext).length === 0 && Object.keys(cleared).length === 0) return;
+
+        await encryptWriteData(schema, modelName, plaintext, query, { ...args['where'], ...row, ...data });
+        await runQueryTasks(query, encryptBatcher !== undefined);
+        Object.assign(data, plaintext, cleared);
+    }
+
+    const plugin = definePlugin<Schema>({
+        id: PLUGIN_ID,
         name: 'Encryption Plugin',
         description: 'Automatically encrypts and decrypts fields marked with @encrypted',
 
@@ -297,10 +1775,21 @@ export function encryption<Schema extends SchemaDef>(config: EncryptionConfig) {
             await ensureInitialized();
             const { model, operation, args, proceed, client } = ctx;
             const schema = (client as unknown as { schema: SchemaDef }).schema;
+            assertValidSchema(schema);
+            const auth = (client as unknown as { $auth?: unknown }).$auth;
+            const query: QueryContext = {
+                model,
+                operation,
+                auth,
+                encrypted: [],
+                decrypted: [],
+                unidentified: [],
+                tasks: [],
+            };
             const modelDef = schema.models[model];
 
-            // Check if this model has any encrypted fields
-            if (!modelDef || !hasEncryptedFields(modelDef)) {
+            // Skip models that can't reach an encrypted field, directly or through relations
+            if (!modelDef || !getEncryptionReachableModels(schema).has(model)) {
                 return proceed(args);
             }
 
@@ -311,53 +1800,150 @@ export function encryption<Schema extends SchemaDef>(config: EncryptionConfig) {
                 operation === 'upsert' ||
                 operation === 'createMany' ||
                 operation === 'updateMany' ||
+                operation === 'updateManyAndReturn' ||
                 operation === 'createManyAndReturn';
 
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             let processedArgs = args as Record<string, any> | undefined;
 
             if (isWrite) {
-                // Clone args to avoid mutating original
-                processedArgs = args ? JSON.parse(JSON.stringify(args)) : undefined;
+                // Copy the args to avoid mutating the original
+                processedArgs = args ? copyWriteArgs(schema, model, args) : undefined;
 
                 if (processedArgs?.data) {
                     if (Array.isArray(processedArgs.data)) {
                         for (const item of processedArgs.data) {
-                            await encryptWriteData(schema, model, item);
+                            await encryptWriteData(schema, model, item, query);
                         }
                     } else {
-                        await encryptWriteData(schema, model, processedArgs.data);
+                        // an update's unique filter identifies the row, e.g. for a key resolver or row binding
+                        const row = operation === 'update' ? { ...processedArgs.where, ...processedArgs.data } : undefined;
+                        await encryptWriteData(schema, model, processedArgs.data, query, row);
                     }
                 }
 
                 // Handle upsert create/update
                 if (operation === 'upsert') {
                     if (processedArgs?.create) {
-                        await encryptWriteData(schema, model, processedArgs.create);
+                        await encryptWriteData(schema, model, processedArgs.create, query);
                     }
                     if (processedArgs?.update) {
-                        await encryptWriteData(schema, model, processedArgs.update);
+                        const row = { ...processedArgs.where, ...processedArgs.update };
+                        await encryptWriteData(schema, model, processedArgs.update, query, row);
                     }
                 }
+                await runQueryTasks(query, encryptBatcher !== undefined);
+            }
+
+            // Point filters on searchable fields at their blind index
+            if (processedArgs) {
+                processedArgs = await rewriteQueryArgs(schema, model, processedArgs, auth);
+            }
+
+            // Aggregations don't return rows, so only row queries need fields selected
+            const returnsRows = !['count', 'aggregate', 'groupBy', 'exists'].includes(operation);
+            if (processedArgs && returnsRows) {
+                processedArgs = selectRequiredFields(schema, model, processedArgs);
+            }
+
+            if (operation === 'update' && config.encryptPlaintextOnWrite && processedArgs) {
+                await encryptPlaintextOnUpdate(client, schema, model, processedArgs, query);
             }
 
             // Execute the query
             const result = await proceed(processedArgs);
+            if (query.unidentified.length > 0) {
+                await identifyWrittenRows(client, schema, query, result);
+            }
+            const projection = returnsRows ? (args as Record<string, unknown> | undefined) : undefined;
 
             // Handle read operations - decrypt data after reading
             if (result !== null && result !== undefined) {
                 if (Array.isArray(result)) {
                     for (const item of result) {
                         if (typeof item === 'object' && item !== null) {
-                            await decryptResultData(schema, model, item as Record<string, unknown>);
+                            await decryptResultData(schema, model, item as Record<string, unknown>, query, projection);
                         }
                     }
                 } else if (typeof result === 'object') {
-                    await decryptResultData(schema, model, result as Record<string, unknown>);
+                    await decryptResultData(schema, model, result as Record<string, unknown>, query, projection);
                 }
+                await runQueryTasks(query, decryptBatcher !== undefined);
             }
 
+            await reportAudit(query);
             return result;
         },
     });
+
+    encryptionHandles.set(plugin, {
+        resolvesKeysPerRow: 'keyResolver' in config && !!config.keyResolver,
+        async getPrimaryKeyId({ model, field, row, auth }) {
+            await ensureInitialized();
+            if (customEncryption) {
+                throw new Error('Custom encryption does not record key ids in its ciphertext');
+            }
+            // encrypt a probe value (as a plain encrypted field, under the field's key) to learn
+            // which key new writes use
+            const attr = getEncryptedAttribute(field);
+            const keyArgs = attr?.args?.filter((arg) => arg.name === 'keyId');
+            const probeField = { ...field, attributes: keyArgs ? [{ name: attr!.name, args: keyArgs }] : [] };
+            return readEncryptionMeta(await encryptValue(model, probeField, '', row, auth)).k;
+        },
+        isEncryptionCurrent(model, field, meta) {
+            // deterministic values are always AES-GCM with a synthetic IV
+            const algorithm = isDeterministicField(field)
+                ? DETERMINISTIC_ALGORITHM
+                : (getValueAlgorithm(field) ?? ALGORITHM);
+            if (meta.a !== algorithm || meta.s !== getFieldSubkey(model, field)) {
+                return false;
+            }
+            switch (config.associatedData) {
+                case undefined:
+                    return true;
+                case 'field':
+                    return meta.d !== undefined;
+                case 'row':
+                    return meta.d === 'row' || (meta.d === 'field' && isDeterministicField(field));
+            }
+        },
+        async decryptField(schema, model, field, stored, row) {
+            await ensureInitialized();
+            assertValidSchema(schema);
+            const encrypted = fromStoredValue(stored);
+            if (encrypted === undefined) {
+                throw new Error(`${model}.${field.name} does not hold encrypted data`);
+            }
+            return decryptValue(model, field, encrypted, getBindingResolver(model, schema.models[model]!, field, row));
+        },
+        async encryptData(schema, model, data, auth, row) {
+            await ensureInitialized();
+            assertValidSchema(schema);
+            // utilities such as reencrypt aren't audited
+            const query = {
+                model,
+                operation: 'encryptData',
+                auth,
+                encrypted: [],
+                decrypted: [],
+                unidentified: [],
+                tasks: [],
+            };
+            await encryptWriteData(schema, model, data, query, row ?? { ...data });
+            await runQueryTasks(query, encryptBatcher !== undefined);
+        },
+    });
+
+    return Object.assign(plugin, {
+        /**
+         * Reload the keys of the `keySource` and put them in use, without a restart.
+         * Rejects (keeping the current keys) if they can't be loaded.
+         */
+        reloadKeys,
+
+        /**
+         * Stop reloading the keys on `reloadInterval` and watching the key file
+         */
+        stopKeyReload: () => stopKeyReload?.(),
+    });
 }
@@ -0,0 +1,275 @@
+import type { ClientContract } from '@zenstackhq/orm';
+import type { FieldDef, SchemaDef } from '@zenstackhq/orm/schema';
+import { getModelDelegate } from './client.js';
+import { getClientEncryptionHandle, PLUGIN_ID } from './plugin.js';
+import {
+    getCiphertextFieldName,
+    getEncryptedTypeDefFields,
+    getEncryptedTypeDefValues,
+    getOwnEncryptedFields,
+    storesEncryptedValues,
+} from './schema.js';
+import { fromStoredValue } from './serialization.js';
+import type { EncryptionMeta } from './utils.js';
+import { ENCRYPTER_VERSION, readEncryptionMeta } from './utils.js';
+
+/**
+ * Options for {@link reencrypt}
+ */
+export type ReencryptOptions = {
+    /**
+     * Models to process. Defaults to every model storing encrypted values, in
+     * encrypted fields or fields typed with a type definition that has them.
+     */
+    models?: string[];
+
+    /**
+     * Number of rows read and re-encrypted per transaction. Defaults to 100.
+     */
+    batchSize?: number;
+
+    /**
+     * Only count the values that would be re-encrypted, without writing
+     */
+    dryRun?: boolean;
+
+    /**
+     * Called after each batch with the progress of the current model
+     */
+    onProgress?: (progress: ReencryptProgress) => void;
+};
+
+/**
+ * Progress of a {@link reencrypt} run on a model
+ */
+export type ReencryptProgress = {
+    model: string;
+    scanned: number;
+    reencrypted: number;
+};
+
+/**
+ * Result of a {@link reencrypt} run
+ */
+export type ReencryptResult = {
+    /**
+     * Id of the key values were re-encrypted with. With a key resolver, the key
+     * depends on the row and this is the key of the last row processed. Fields
+     * selecting a named key with `@encrypted(keyId: '...')` are re-encrypted with
+     * that key's current key instead.
+     */
+    primaryKeyId: string;
+
+    /**
+     * Number of rows scanned
+     */
+    scanned: number;
+
+    /**
+     * Number of rows re-encrypted (or that would be, in a dry run)
+     */
+    reencrypted: number;
+
+    /**
+     * Number of values that could not be read, e.g. malformed or under an unknown key
+     */
+    failed: number;
+
+    /**
+     * Number of encrypted values found under each key id, before re-encryption
+     */
+    keys: Record<string, number>;
+
+    /**
+     * Per-model breakdown
+     */
+    models: Record<string, Omit<ReencryptResult, 'primaryKeyId' | 'models'>>;
+};
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Re-encrypt every encrypted value that is not under the current primary key,
+ * so previous keys can be retired, not in the current format, not encrypted
+ * with the field's configured cipher or subkey, or not bound to associated
+ * data as configured (e.g. row-bound values written before the row's id was
+ * known). Values of fields typed with a type definition are rewritten together,
+ * with the field holding them.
+ * Rows are paged in batches; each batch is written in a transaction, and a
+ * value changed concurrently is left alone.
+ *
+ * @param client A client with the encryption plugin installed
+ * @param options Re-encryption options
+ * @returns Counts of scanned and re-encrypted rows and of values per key id
+ */
+export async function reencrypt<Schema extends SchemaDef>(
+    client: ClientContract<Schema>,
+    options: ReencryptOptions = {},
+): Promise<ReencryptResult> {
+    const handle = getClientEncryptionHandle(client);
+    const schema = client.$schema as SchemaDef;
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const models =
+        options.models ??
+        Object.keys(schema.models).filter(
+            (name) => !schema.models[name]!.isView && storesEncryptedValues(schema, name),
+        );
+
+    for (const name of models) {
+        if (!schema.models[name]) {
+            throw new Error(`Unknown model "${name}"`);
+        }
+    }
+
+    // read and write raw ciphertext, bypassing the plugin
+    const raw = client.$unuse(PLUGIN_ID);
+    const auth = client.$auth;
+
+    const result: ReencryptResult = { primaryKeyId: '', scanned: 0, reencrypted: 0, failed: 0, keys: {}, models: {} };
+
+    for (const modelName of models) {
+        const fields = getOwnEncryptedFields(schema, modelName);
+        const typeDefFields = getEncryptedTypeDefFields(schema, modelName);
+        if (fields.length === 0 && typeDefFields.length === 0) continue;
+
+        const { idFields } = schema.models[modelName]!;
+        const stats = { scanned: 0, reencrypted: 0, failed: 0, keys: {} as Record<string, number> };
+        result.models[modelName] = stats;
+        // the key each field's new values are encrypted with, which named keys make differ per field
+        const primaryKeyIds = new Map<string, string>();
+        let keyRow: Record<string, unknown> = {};
+        const getPrimaryKeyId = async (field: FieldDef) => {
+            if (!primaryKeyIds.has(field.name)) {
+                const keyId = await handle.getPrimaryKeyId({ model: modelName, field, row: keyRow, auth });
+                primaryKeyIds.set(field.name, keyId);
+            }
+            return primaryKeyIds.get(field.name);
+        };
+        const resolvePrimaryKeyIds = async (row: Record<string, unknown>) => {
+            keyRow = row;
+            primaryKeyIds.clear();
+            const defaultField = { ...(fields[0] ?? typeDefFields[0]!), attributes: [] };
+            result.primaryKeyId = await handle.getPrimaryKeyId({ model: modelName, field: defaultField, row, auth });
+        };
+        await resolvePrimaryKeyIds({});
+        // whether a value is under the field's current key and encrypted as configured
+        const isCurrent = async (field: FieldDef, meta: EncryptionMeta) =>
+            meta.v === ENCRYPTER_VERSION &&
+            meta.k === (await getPrimaryKeyId(field)) &&
+            handle.isEncryptionCurrent(modelName, field, meta);
+
+        const columns = [...idFields, ...fields.map(getCiphertextFieldName), ...typeDefFields.map((f) => f.name)];
+        for (let skip = 0; ; skip += batchSize) {
+            const rows = await getModelDelegate(raw, modelName).findMany({
+                // a key resolver may need any of the row's fields (e.g. a tenant id)
+                select: handle.resolvesKeysPerRow ? undefined : Object.fromEntries(columns.map((f) => [f, true])),
+                orderBy: idFields.map((f) => ({ [f]: 'asc' })),
+                skip,
+                take: batchSize,
+            });
+            if (rows.length === 0) break;
+
+            const updates: { where: Record<string, unknown>; data: Record<string, unknown> }[] = [];
+            for (const row of rows) {
+                stats.scanned++;
+                const where: Record<string, unknown> = Object.fromEntries(idFields.map((f) => [f, row[f]]));
+                const data: Record<string, unknown> = {};
+                if (handle.resolvesKeysPerRow) {
+                    await resolvePrimaryKeyIds(row);
+                }
+
+                for (const field of fields) {
+                    const column = getCiphertextFieldName(field);
+                    const stored = row[column];
+                    const encrypted = fromStoredValue(stored);
+                    if (encrypted === undefined) continue;
+
+                    let meta: EncryptionMeta;
+                    try {
+                        meta = readEncryptionMeta(encrypted);
+                    } catch {
+                        stats.failed++;
+                        continue;
+                    }
+                    stats.keys[meta.k] = (stats.keys[meta.k] ?? 0) + 1;
+                    if (await isCurrent(field, meta)) {
+                        continue;
+                    }
+
+                    try {
+                        data[field.name] = await handle.decryptField(schema, modelName, field, stored, row);
+                    } catch {
+                        stats.failed++;
+                        continue;
+                    }
+                    // only overwrite the value if it hasn't changed since it was read
+                    where[column] = { equals: stored };
+                }
+
+                // values of type definitions are re-encrypted with the whole field, once all are decrypted
+                for (const field of typeDefFields) {
+                    const stored = row[field.name];
+                    if (stored === null || stored === undefined) continue;
+                    const copy = structuredClone(stored);
+                    const values = getEncryptedTypeDefValues(schema, field.type, field.name, copy);
+
+                    let stale = false;
+                    let readable = true;
+                    for (const { field: inner, value } of values) {
+                        let meta: EncryptionMeta;
+                        try {
+                            meta = readEncryptionMeta(fromStoredValue(value) ?? '');
+                        } catch {
+                            stats.failed++;
+                            readable = false;
+                            continue;
+                        }
+                        stats.keys[meta.k] = (stats.keys[meta.k] ?? 0) + 1;
+                        stale ||= !(await isCurrent(inner, meta));
+                    }
+                    if (!stale || !readable) continue;
+
+                    try {
+                        for (const { field: inner, value, assign } of values) {
+                            assign(await handle.decryptField(schema, modelName, inner, value, row));
+                        }
+                    } catch {
+                        stats.failed++;
+                        continue;
+                    }
+                    data[field.name] = copy;
+                    where[field.name] = { equals: stored };
+                }
+
+                if (Object.keys(data).length > 0) {
+                    stats.reencrypted++;
+                    if (!options.dryRun) {
+                        await handle.encryptData(schema, modelName, data, auth, { ...row, ...data });
+                        updates.push({ where, data });
+                    }
+                }
+            }
+
+            if (updates.length > 0) {
+                await raw.$transaction(async (tx) => {
+                    const txDelegate = getModelDelegate(tx, modelName);
+                    for (const update of updates) {
+                        await txDelegate.updateMany(update);
+                    }
+                });
+            }
+
+            options.onProgress?.({ model: modelName, scanned: stats.scanned, reencrypted: stats.reencrypted });
+            if (rows.length < batchSize) break;
+        }
+
+        result.scanned += stats.scanned;
+        result.reencrypted += stats.reencrypted;
+        result.failed += stats.failed;
+        for (const [keyId, count] of Object.entries(stats.keys)) {
+            result.keys[keyId] = (result.keys[keyId] ?? 0) + count;
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,149 @@
+import type { SchemaDef } from '@zenstackhq/orm/schema';
+import { getModelDelegate } from './client.js';
+import { PLUGIN_ID } from './plugin.js';
+import {
+    getCiphertextFieldName,
+    getEncryptedTypeDefFields,
+    getEncryptedTypeDefValues,
+    getOwnEncryptedFields,
+    storesEncryptedValues,
+} from './schema.js';
+import { fromStoredValue } from './serialization.js';
+import type { EncryptionMeta } from './utils.js';
+import { readEncryptionMeta } from './utils.js';
+
+/**
+ * Options for {@link scanEncryptedValues}
+ */
+export type ScanOptions = {
+    /**
+     * Models to scan. Defaults to every model storing encrypted values, in
+     * encrypted fields or fields typed with a type definition that has them.
+     */
+    models?: string[];
+
+    /**
+     * Number of rows read per query. Defaults to 100.
+     */
+    batchSize?: number;
+};
+
+/**
+ * Result of a {@link scanEncryptedValues} run
+ */
+export type ScanResult = {
+    /**
+     * Number of rows scanned
+     */
+    scanned: number;
+
+    /**
+     * Number of non-null encrypted field values found, including those of fields of type definitions
+     */
+    values: number;
+
+    /**
+     * Number of values that are not readable encrypted data, e.g. plaintext or truncated values
+     */
+    malformed: number;
+
+    /**
+     * Number of values under each key digest (or key encryption key id, for envelope encryption)
+     */
+    keys: Record<string, number>;
+
+    /**
+     * Per-model breakdown
+     */
+    models: Record<string, Omit<ScanResult, 'models'>>;
+};
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Count the encrypted values in a database by the key they are encrypted
+ * under, and find values that aren't readable encrypted data. Only the
+ * envelopes are read, so no keys are needed and the plugin doesn't have to be
+ * installed on the client.
+ *
+ * @param client A ZenStack client
+ * @param options Scan options
+ * @returns Counts of values per key digest and of malformed values
+ */
+export async function scanEncryptedValues(client: unknown, options: ScanOptions = {}): Promise<ScanResult> {
+    const { $schema, $unuse } = client as { $schema: SchemaDef; $unuse?: (id: string) => unknown };
+    const schema = $schema;
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const models =
+        options.models ??
+        Object.keys(schema.models).filter(
+            (name) => !schema.models[name]!.isView && storesEncryptedValues(schema, name),
+        );
+
+    for (const name of models) {
+        if (!schema.models[name]) {
+            throw new Error(`Unknown model "${name}"`);
+        }
+    }
+
+    // read raw ciphertext, bypassing the plugin if it's installed
+    const raw = $unuse ? $unuse.call(client, PLUGIN_ID) : client;
+
+    const result: ScanResult = { scanned: 0, values: 0, malformed: 0, keys: {}, models: {} };
+
+    for (const modelName of models) {
+        const fields = getOwnEncryptedFields(schema, modelName);
+        const typeDefFields = getEncryptedTypeDefFields(schema, modelName);
+        if (fields.length === 0 && typeDefFields.length === 0) continue;
+
+        const { idFields } = schema.models[modelName]!;
+        const stats = { scanned: 0, values: 0, malformed: 0, keys: {} as Record<string, number> };
+        result.models[modelName] = stats;
+
+        const columns = [...idFields, ...fields.map(getCiphertextFieldName), ...typeDefFields.map((f) => f.name)];
+        for (let skip = 0; ; skip += batchSize) {
+            const rows = await getModelDelegate(raw, modelName).findMany({
+                select: Object.fromEntries(columns.map((f) => [f, true])),
+                orderBy: idFields.map((f) => ({ [f]: 'asc' })),
+                skip,
+                take: batchSize,
+            });
+            if (rows.length === 0) break;
+
+            for (const row of rows) {
+                stats.scanned++;
+                const values = [
+                    ...fields.map((field) => row[getCiphertextFieldName(field)]),
+                    ...typeDefFields.flatMap((field) =>
+                        getEncryptedTypeDefValues(schema, field.type, field.name, row[field.name]).map((v) => v.value),
+                    ),
+                ];
+                for (const stored of values) {
+                    if (stored === null || stored === undefined) continue;
+                    stats.values++;
+
+                    const encrypted = fromStoredValue(stored);
+                    let meta: EncryptionMeta;
+                    try {
+                        meta = readEncryptionMeta(encrypted ?? '');
+                    } catch {
+                        stats.malformed++;
+                        continue;
+                    }
+                    stats.keys[meta.k] = (stats.keys[meta.k] ?? 0) + 1;
+                }
+            }
+
+            if (rows.length < batchSize) break;
+        }
+
+        result.scanned += stats.scanned;
+        result.values += stats.values;
+        result.malformed += stats.malformed;
+        for (const [keyId, count] of Object.entries(stats.keys)) {
+            result.keys[keyId] = (result.keys[keyId] ?? 0) + count;
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,286 @@
+import type { AttributeApplication, Expression, FieldDef, ModelDef, SchemaDef } from '@zenstackhq/orm/schema';
+import { ENCRYPTABLE_FIELD_TYPES, STORAGE_FIELD_TYPES } from './serialization.js';
+
+export const ENCRYPTED_ATTRIBUTE = '@encrypted';
+
+const reachabilityCache = new WeakMap<SchemaDef, Set<string>>();
+const encryptedTypeDefsCache = new WeakMap<SchemaDef, Set<string>>();
+
+/**
+ * Get the @encrypted attribute of a field, if any
+ */
+export function getEncryptedAttribute(field: FieldDef): AttributeApplication | undefined {
+    return field.attributes?.find((attr) => attr.name === ENCRYPTED_ATTRIBUTE);
+}
+
+/**
+ * Get the literal value of a named attribute argument
+ */
+export function getAttributeArg(attr: AttributeApplication, name: string): string | number | boolean | undefined {
+    const arg = attr.args?.find((a) => a.name === name);
+    return arg?.value.kind === 'literal' ? arg.value.value : undefined;
+}
+
+/**
+ * Get the expression of a named attribute argument
+ */
+export function getAttributeExpression(attr: AttributeApplication, name: string): Expression | undefined {
+    return attr.args?.find((a) => a.name === name)?.value;
+}
+
+/**
+ * Check if a field has the @encrypted attribute
+ */
+export function isEncryptedField(field: FieldDef): boolean {
+    return getEncryptedAttribute(field) !== undefined;
+}
+
+/**
+ * Check if a field is marked `@encrypted(searchable: true)`
+ */
+export function isSearchableField(field: FieldDef): boolean {
+    const attr = getEncryptedAttribute(field);
+    return attr !== undefined && field.type === 'String' && getAttributeArg(attr, 'searchable') === true;
+}
+
+/**
+ * Check if a field is marked `@encrypted(deterministic: true)`
+ */
+export function isDeterministicField(field: FieldDef): boolean {
+    const attr = getEncryptedAttribute(field);
+    return attr !== undefined && getAttributeArg(attr, 'deterministic') === true;
+}
+
+/**
+ * Get the cipher a field is encrypted with, from `@encrypted(algorithm: '...')`
+ */
+export function getFieldAlgorithm(field: FieldDef): string | undefined {
+    const attr = getEncryptedAttribute(field);
+    const algorithm = attr && getAttributeArg(attr, 'algorithm');
+    return typeof algorithm === 'string' ? algorithm : undefined;
+}
+
+/**
+ * Get the named key a field is encrypted with, from `@encrypted(keyId: '...')`
+ */
+export function getFieldKeyId(field: FieldDef): string | undefined {
+    const attr = getEncryptedAttribute(field);
+    const keyId = attr && getAttributeArg(attr, 'keyId');
+    return typeof keyId === 'string' ? keyId : undefined;
+}
+
+/**
+ * Get the condition under which a field is decrypted, from `@encrypted(decryptFor: ...)`
+ */
+export function getDecryptForExpression(field: FieldDef): Expression | undefined {
+    const attr = getEncryptedAttribute(field);
+    return attr && getAttributeExpression(attr, 'decryptFor');
+}
+
+/**
+ * Get the mask pattern returned instead of a field's value when it isn't decrypted,
+ * from `@encrypted(mask: '...')`
+ */
+export function getFieldMask(field: FieldDef): string | undefined {
+    const attr = getEncryptedAttribute(field);
+    const mask = attr && getAttributeArg(attr, 'mask');
+    return typeof mask === 'string' ? mask : undefined;
+}
+
+/**
+ * Get the name of the companion field storing the blind index of a searchable field:
+ * `<field>BlindIndex` unless overridden with `@encrypted(blindIndex: '...')`
+ */
+export function getBlindIndexFieldName(field: FieldDef): string {
+    const configured = getAttributeArg(getEncryptedAttribute(field)!, 'blindIndex');
+    return typeof configured === 'string' ? configured : `${field.name}BlindIndex`;
+}
+
+/**
+ * Resolve the companion field storing the blind index of a searchable field,
+ * checking it can hold one
+ */
+export function getBlindIndexField(modelName: string, model: ModelDef, field: FieldDef): string {
+    const indexField = getBlindIndexFieldName(field);
+    if (model.fields[indexField]?.type !== 'String') {
+        throw new Error(
+            `Searchable encrypted field ${modelName}.${field.name} requires a String field "${indexField}" to store its blind index`,
+        );
+    }
+    return indexField;
+}
+
+/**
+ * Get the name of the field storing the encrypted value of a field whose own
+ * column can't hold it, from `@encrypted(storage: '...')`
+ */
+export function getStorageFieldName(field: FieldDef): string | undefined {
+    const attr = getEncryptedAttribute(field);
+    const storage = attr && getAttributeArg(attr, 'storage');
+    return typeof storage === 'string' ? storage : undefined;
+}
+
+/**
+ * Get the name of the field whose column holds the encrypted value of a field:
+ * its storage field, or the field itself
+ */
+export function getCiphertextFieldName(field: FieldDef): string {
+    return getStorageFieldName(field) ?? field.name;
+}
+
+/**
+ * Check if a field is encrypted and its encrypted value can be stored, in its
+ * own column or in its storage field
+ */
+export function isEncryptableField(field: FieldDef): boolean {
+    if (!isEncryptedField(field)) return false;
+    return (
+        ENCRYPTABLE_FIELD_TYPES.includes(field.type) ||
+        (STORAGE_FIELD_TYPES.includes(field.type) && getStorageFieldName(field) !== undefined)
+    );
+}
+
+/**
+ * Check if a model has any encrypted fields
+ */
+export function hasEncryptedFields(model: ModelDef): boolean {
+    return Object.values(model.fields).some(isEncryptedField);
+}
+
+/**
+ * Get the type definitions (`type` declarations) with encrypted fields, directly
+ * or in a nested type. Computed once per schema.
+ */
+export function getEncryptedTypeDefs(schema: SchemaDef): Set<string> {
+    let encrypted = encryptedTypeDefsCache.get(schema);
+    if (encrypted) return encrypted;
+
+    const typeDefs = Object.entries(schema.typeDefs ?? {});
+    encrypted = new Set(
+        typeDefs.filter(([, typeDef]) => Object.values(typeDef.fields).some(isEncryptedField)).map(([name]) => name),
+    );
+
+    // propagate to types embedding them until nothing changes
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const [name, typeDef] of typeDefs) {
+            if (!encrypted.has(name) && Object.values(typeDef.fields).some((field) => encrypted!.has(field.type))) {
+                encrypted.add(name);
+                changed = true;
+            }
+        }
+    }
+
+    encryptedTypeDefsCache.set(schema, encrypted);
+    return encrypted;
+}
+
+/**
+ * Get the fields of a model typed with a type definition that has encrypted fields
+ */
+export function getEncryptedTypeDefFields(schema: SchemaDef, model: string): FieldDef[] {
+    const encryptedTypeDefs = getEncryptedTypeDefs(schema);
+    return Object.values(schema.models[model]!.fields).filter(
+        (field) => encryptedTypeDefs.has(field.type) && !field.originModel && !field.computed,
+    );
+}
+
+/**
+ * Get the set of models that have encrypted fields (including in type definitions)
+ * or transitively reach one through relations. Computed once per schema.
+ */
+export function getEncryptionReachableModels(schema: SchemaDef): Set<string> {
+    let reachable = reachabilityCache.get(schema);
+    if (reachable) return reachable;
+
+    reachable = new Set(
+        Object.entries(schema.models)
+            .filter(([name, model]) => hasEncryptedFields(model) || getEncryptedTypeDefFields(schema, name).length > 0)
+            .map(([name]) => name),
+    );
+
+    // propagate backwards along relations until nothing changes
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const [name, model] of Object.entries(schema.models)) {
+            if (reachable.has(name)) continue;
+            const reachesEncrypted = Object.values(model.fields).some(
+                (field) => field.relation && reachable!.has(field.type),
+            );
+            if (reachesEncrypted) {
+                reachable.add(name);
+                changed = true;
+            }
+        }
+    }
+
+    reachabilityCache.set(schema, reachable);
+    return reachable;
+}
+
+/**
+ * Get the encrypted fields stored in a model's own table
+ */
+export function getOwnEncryptedFields(schema: SchemaDef, model: string): FieldDef[] {
+    return Object.values(schema.models[model]!.fields).filter(
+        (field) => isEncryptableField(field) && !field.originModel && !field.computed,
+    );
+}
+
+/**
+ * Check if a model's own table stores encrypted values, in encrypted fields or
+ * fields typed with a type definition that has encrypted fields
+ */
+export function storesEncryptedValues(schema: SchemaDef, model: string): boolean {
+    return getOwnEncryptedFields(schema, model).length > 0 || getEncryptedTypeDefFields(schema, model).length > 0;
+}
+
+/**
+ * A value of an encrypted field of a type definition, found in a stored value
+ */
+export type TypeDefFieldValue = {
+    /**
+     * The field, named by its path (e.g. `accounts.iban`)
+     */
+    field: FieldDef;
+
+    value: unknown;
+
+    /**
+     * Replace the value in the object holding it
+     */
+    assign(value: unknown): void;
+};
+
+/**
+ * Find the non-null values of encrypted fields in a value typed with a type
+ * definition (or a list of them), including those of nested types
+ * @param path The path of the value, e.g. the name of the model field holding it
+ */
+export function getEncryptedTypeDefValues(
+    schema: SchemaDef,
+    typeName: string,
+    path: string,
+    value: unknown,
+): TypeDefFieldValue[] {
+    if (Array.isArray(value)) {
+        return value.flatMap((item) => getEncryptedTypeDefValues(schema, typeName, path, item));
+    }
+    const typeDef = schema.typeDefs?.[typeName];
+    if (!typeDef || typeof value !== 'object' || value === null) return [];
+
+    const record = value as Record<string, unknown>;
+    return Object.entries(record).flatMap(([name, inner]): TypeDefFieldValue[] => {
+        const field = typeDef.fields[name];
+        if (!field || inner === null || inner === undefined) return [];
+        const fieldAtPath = { ...field, name: `${path}.${name}` };
+        if (isEncryptedField(field) && ENCRYPTABLE_FIELD_TYPES.includes(field.type)) {
+            return [{ field: fieldAtPath, value: inner, assign: (plain) => (record[name] = plain) }];
+        }
+        return getEncryptedTypeDefs(schema).has(field.type)
+            ? getEncryptedTypeDefValues(schema, field.type, fieldAtPath.name, inner)
+            : [];
+    });
+}
@@ -0,0 +1,140 @@
+import Decimal from 'decimal.js';
+import { fromBase64, fromEnvelopeBytes, isEncryptedData, toBase64, toEnvelopeBytes } from './utils.js';
+
+/**
+ * Type tags recorded in the envelope metadata for non-string values
+ */
+export type ValueType = 'Int' | 'Float' | 'BigInt' | 'Boolean' | 'DateTime' | 'Decimal' | 'Bytes' | 'Json';
+
+/**
+ * Field types whose columns can hold an encrypted value
+ */
+export const ENCRYPTABLE_FIELD_TYPES = ['String', 'Json', 'Bytes'];
+
+/**
+ * Field types whose columns can't hold an encrypted value, which is stored in
+ * the String or Bytes field named by `@encrypted(storage: '...')` instead
+ */
+export const STORAGE_FIELD_TYPES = ['Int', 'Float', 'BigInt', 'Boolean', 'DateTime', 'Decimal'];
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Convert a value written to a field with a storage field to the JS type the
+ * field is read as, e.g. an ISO date string to a Date
+ */
+function toFieldType(value: unknown, fieldType: string): unknown {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        return value;
+    }
+    switch (fieldType) {
+        case 'DateTime':
+            return new Date(value);
+        case 'Decimal':
+            return new Decimal(value);
+        case 'BigInt':
+            return BigInt(value);
+        default:
+            return value;
+    }
+}
+
+/**
+ * Serialize a value to a plaintext string, with a type tag so it can be
+ * restored by {@link deserializeValue}. Strings are not tagged unless they
+ * are written to a Json field.
+ */
+export function serializeValue(value: unknown, fieldType: string): { plain: string; type?: ValueType } {
+    if (STORAGE_FIELD_TYPES.includes(fieldType)) {
+        value = toFieldType(value, fieldType);
+    }
+    if (typeof value === 'string') {
+        return fieldType === 'Json' ? { plain: JSON.stringify(value), type: 'Json' } : { plain: value };
+    }
+    if (typeof value === 'number') {
+        return { plain: String(value), type: Number.isInteger(value) ? 'Int' : 'Float' };
+    }
+    if (typeof value === 'bigint') {
+        return { plain: value.toString(), type: 'BigInt' };
+    }
+    if (typeof value === 'boolean') {
+        return { plain: String(value), type: 'Boolean' };
+    }
+    if (value instanceof Date) {
+        return { plain: value.toISOString(), type: 'DateTime' };
+    }
+    if (Decimal.isDecimal(value)) {
+        return { plain: value.toString(), type: 'Decimal' };
+    }
+    if (value instanceof Uint8Array) {
+        return { plain: toBase64(value), type: 'Bytes' };
+    }
+    return { plain: JSON.stringify(value), type: 'Json' };
+}
+
+/**
+ * Get the type tag implied by a field type, used when the encrypted data
+ * carries no tag of its own (e.g. with custom encryption)
+ */
+export function getDefaultValueType(fieldType: string): ValueType | undefined {
+    const typed = fieldType === 'Json' || fieldType === 'Bytes' || STORAGE_FIELD_TYPES.includes(fieldType);
+    return typed ? (fieldType as ValueType) : undefined;
+}
+
+/**
+ * Restore a plaintext string produced by {@link serializeValue}
+ */
+export function deserializeValue(plain: string, type: string | undefined): unknown {
+    switch (type) {
+        case undefined:
+            return plain;
+        case 'Int':
+        case 'Float':
+            return Number(plain);
+        case 'BigInt':
+            return BigInt(plain);
+        case 'Boolean':
+            return plain === 'true';
+        case 'DateTime':
+            return new Date(plain);
+        case 'Decimal':
+            return new Decimal(plain);
+        case 'Bytes':
+            return fromBase64(plain);
+        case 'Json':
+            return JSON.parse(plain);
+        default:
+            throw new Error(`Unknown value type "${type}"`);
+    }
+}
+
+/**
+ * Convert encrypted data to the representation stored in a column of the given type.
+ * Bytes columns hold v2 envelopes as raw bytes, and other data as UTF-8 text.
+ */
+export function toStoredValue(encrypted: string, fieldType: string): string | Uint8Array {
+    return fieldType === 'Bytes' ? (toEnvelopeBytes(encrypted) ?? encoder.encode(encrypted)) : encrypted;
+}
+
+/**
+ * Read encrypted data back from a stored column value, or undefined if the
+ * value can't hold encrypted data
+ */
+export function fromStoredValue(stored: unknown): string | undefined {
+    if (typeof stored === 'string') {
+        return stored;
+    }
+    if (stored instanceof Uint8Array) {
+        return fromEnvelopeBytes(stored) ?? decoder.decode(stored);
+    }
+    return undefined;
+}
+
+/**
+ * Check if a stored column value holds encrypted data, as opposed to plaintext
+ */
+export function isStoredEncrypted(stored: unknown): boolean {
+    const encrypted = fromStoredValue(stored);
+    return encrypted !== undefined && isEncryptedData(encrypted);
+}
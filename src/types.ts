@@ -1,4 +1,118 @@
-import type { FieldDef } from '@zenstackhq/orm/schema';
+import type { FieldDef, SchemaDef } from '@zenstackhq/orm/schema';
+import type { AssociatedDataScheme } from './associated-data.js';
+import type { EncryptedValueJson } from './encrypted-value.js';
+import type { DecryptionError } from './errors.js';
+import type { KeyDerivation } from './kdf.js';
+
+/**
+ * Context of a value being encrypted, used to choose a key per tenant or request
+ */
+export type EncryptionContext = {
+    /**
+     * The model name
+     */
+    model: string;
+
+    /**
+     * The encrypted field definition
+     */
+    field: FieldDef;
+
+    /**
+     * The data being written at the level of the encrypted field. For top-level
+     * updates it also holds the fields of the unique filter; when encrypting
+     * filter values, it holds the fields the filter matches by equality.
+     */
+    row: Record<string, unknown>;
+
+    /**
+     * The auth context of the client performing the query (`client.$auth`)
+     */
+    auth: unknown;
+};
+
+/**
+ * Context of an encrypted value being read, used to decide whether to decrypt it
+ */
+export type DecryptionContext = {
+    /**
+     * The model name
+     */
+    model: string;
+
+    /**
+     * The encrypted field definition
+     */
+    field: FieldDef;
+
+    /**
+     * The row the value was read from, as stored (other encrypted fields are not yet decrypted)
+     */
+    row: Record<string, unknown>;
+
+    /**
+     * The auth context of the client performing the query (`client.$auth`)
+     */
+    auth: unknown;
+};
+
+/**
+ * An encrypted value reported to the audit hooks
+ */
+export type AuditedValue = {
+    /**
+     * The model name
+     */
+    model: string;
+
+    /**
+     * The encrypted field name
+     */
+    field: string;
+
+    /**
+     * The id of the row the value belongs to. Ids generated on create are taken
+     * from the rows the write returns, or looked up by ciphertext; undefined if
+     * the row can't be found that way (e.g. it holds only deterministic values
+     * shared with other rows)
+     */
+    id: Record<string, unknown> | undefined;
+
+    /**
+     * Digest of the key the value is encrypted with (the key of its data key with
+     * envelope encryption), or undefined with custom encryption
+     */
+    keyId: string | undefined;
+};
+
+/**
+ * The values encrypted or decrypted by a query, reported once it completes
+ */
+export type EncryptionAuditEvent = {
+    action: 'encrypt' | 'decrypt';
+
+    /**
+     * The model the query was made on
+     */
+    model: string;
+
+    /**
+     * The query operation, e.g. `'findMany'`
+     */
+    operation: string;
+
+    /**
+     * The auth context of the client performing the query (`client.$auth`)
+     */
+    auth: unknown;
+
+    timestamp: Date;
+
+    /**
+     * The values, including those of nested writes and included relations
+     */
+    values: AuditedValue[];
+};
 
 /**
  * Simple encryption configuration using built-in AES-256-GCM encryption
@@ -10,12 +124,240 @@ export type SimpleEncryption = {
      */
     key: string | Uint8Array;
 
+    /**
+     * Name of the cipher to encrypt with: `'AES-GCM'` (the default), `'ChaCha20-Poly1305'`,
+     * `'XChaCha20-Poly1305'`, `'AES-CBC-HMAC-SHA256'` or one added with `registerAlgorithm`.
+     * Fields can override it with `@encrypted(algorithm: '...')`. Values record their
+     * cipher, so changing it doesn't affect reading existing data.
+     */
+    algorithm?: string;
+
     /**
      * Previous keys for key rotation support.
      * When decrypting, all keys (key + previousKeys) are tried.
      * Each key can be a Uint8Array (32 bytes) or a string (derived via SHA-256).
      */
     previousKeys?: (string | Uint8Array)[];
+
+    /**
+     * Key used to compute blind indexes for `@encrypted(searchable: true)` fields.
+     * Defaults to a subkey derived from `key`. Set it explicitly before rotating
+     * `key`, otherwise existing blind indexes will no longer match.
+     */
+    blindIndexKey?: string | Uint8Array;
+
+    /**
+     * Chooses the key to encrypt a value with, e.g. per tenant. Return undefined
+     * to use `key` (or the field's named key, see `keys`). Resolved keys are added to the decryption keys automatically.
+     * Each key can be a Uint8Array (32 bytes) or a string (derived via SHA-256).
+     *
+     * Filter values of deterministic fields only have the fields the filter matches
+     * by equality as `row`, so a resolver reading `row.tenantId` needs it in the
+     * filter (e.g. `where: { tenantId, nationalId }`), or it falls back to `key`
+     * and the filter matches nothing encrypted under the tenant's key.
+     */
+    keyResolver?: (
+        context: EncryptionContext,
+    ) => string | Uint8Array | undefined | Promise<string | Uint8Array | undefined>;
+
+    /**
+     * Additional decryption keys, e.g. every tenant key returned by `keyResolver`.
+     * Keys are looked up by the digest recorded in the encrypted data, so removing
+     * a tenant's key renders only that tenant's data unreadable.
+     * Each key can be a Uint8Array (32 bytes) or a string (derived via SHA-256).
+     */
+    keyring?: (string | Uint8Array)[];
+
+    /**
+     * Named keys that fields select with `@encrypted(keyId: '...')` instead of `key`,
+     * e.g. `{ payments: { key: process.env.PAYMENTS_KEY } }`, so each can be rotated
+     * on its own. Values are decrypted by key digest, whichever key they are under.
+     */
+    keys?: Record<string, NamedKey>;
+
+    /**
+     * How string keys are derived to 32-byte keys. Defaults to a single SHA-256,
+     * which is only safe for high-entropy secrets; use `'hkdf'` for those, and a
+     * salted passphrase KDF (`'pbkdf2'`, `'scrypt'`, `'argon2id'`) otherwise.
+     * Data encrypted under SHA-256-derived keys still decrypts.
+     */
+    kdf?: KeyDerivation;
+
+    /**
+     * KDFs string keys were derived with before `kdf`, e.g. with another salt or
+     * cost. String keys are also derived with each to decrypt, so data written
+     * under them still decrypts until `reencrypt` moves it to `kdf`.
+     */
+    previousKdfs?: KeyDerivation[];
+
+    /**
+     * Encrypt each field with its own subkey, derived from the key for `Model.field`,
+     * so a key leaked from one field doesn't expose the others. The subkey label
+     * is recorded with each value, so existing values still decrypt.
+     */
+    perFieldKeys?: boolean;
+};
+
+/**
+ * A named key selected by fields with `@encrypted(keyId: '...')`
+ */
+export type NamedKey = {
+    /**
+     * The key new values are encrypted with. Pass a Uint8Array of exactly 32 bytes,
+     * or a string derived with the configured `kdf`.
+     */
+    key: string | Uint8Array;
+
+    /**
+     * Previous keys, still used to decrypt
+     */
+    previousKeys?: (string | Uint8Array)[];
+};
+
+/**
+ * The keys of a simple encryption configuration, as loaded from a {@link KeySource}
+ */
+export type KeySet = Pick<SimpleEncryption, 'key' | 'previousKeys' | 'keyring' | 'keys'>;
+
+/**
+ * Where keys are loaded from: a function returning them (e.g. from a secrets
+ * manager), or a JSON file holding a {@link KeySet} with string keys, e.g.
+ * `{ "key": "...", "previousKeys": ["..."], "keys": { "payments": { "key": "..." } } }`.
+ * A file is watched and reloaded when it changes, unless `watch` is false. Requires Node.js.
+ */
+export type KeySource = (() => KeySet | Promise<KeySet>) | { file: string; watch?: boolean };
+
+/**
+ * Reported when reloading the keys changed the key new values are encrypted with
+ */
+export type KeyChangeEvent = {
+    /**
+     * Digest of the key values were encrypted with before the reload
+     */
+    previousDigest: string;
+
+    /**
+     * Digest of the key values are encrypted with now
+     */
+    digest: string;
+
+    timestamp: Date;
+};
+
+/**
+ * Simple encryption with keys loaded from a {@link KeySource}, which can be
+ * reloaded while the application runs to rotate keys without a restart
+ */
+export type KeySourceEncryption = Omit<SimpleEncryption, keyof KeySet> & {
+    /**
+     * Where the keys are loaded from. Loaded on first use, and again on every reload.
+     * When rotating, keep the replaced key in `previousKeys` so values written with
+     * it (including by queries in flight during the reload) still decrypt.
+     * `blindIndexKey` is required if fields are searchable, so blind indexes don't change with `key`.
+     */
+    keySource: KeySource;
+
+    /**
+     * Reload the keys every this many milliseconds. Failed reloads are logged and
+     * the current keys are kept. Reload on demand with `plugin.reloadKeys()`.
+     */
+    reloadInterval?: number;
+
+    /**
+     * Called after a reload changed the key new values are encrypted with, once the
+     * new keys are in use
+     */
+    onKeyChange?: (event: KeyChangeEvent) => void | Promise<void>;
+};
+
+/**
+ * A data key wrapped (encrypted) by a key encryption key
+ */
+export type WrappedKey = {
+    /**
+     * Identifier of the key encryption key that wrapped the data key
+     */
+    keyId: string;
+
+    /**
+     * The wrapped data key, base64 encoded
+     */
+    data: string;
+};
+
+/**
+ * Provider of key encryption keys (KEKs) used to wrap and unwrap data keys.
+ * Implement this to keep KEKs in a KMS, Vault or HSM.
+ */
+export interface KeyProvider {
+    /**
+     * Wraps a data key with the current key encryption key
+     * @param dataKey The raw 32-byte data key
+     * @returns The wrapped data key
+     */
+    wrapKey(dataKey: Uint8Array): Promise<WrappedKey>;
+
+    /**
+     * Unwraps a data key previously returned by `wrapKey`
+     * @param wrapped The wrapped data key
+     * @returns The raw 32-byte data key
+     */
+    unwrapKey(wrapped: WrappedKey): Promise<Uint8Array>;
+}
+
+/**
+ * Envelope encryption configuration: values are encrypted with data keys
+ * (DEKs) which are wrapped by key encryption keys from a {@link KeyProvider}
+ */
+export type KeyProviderEncryption = {
+    /**
+     * The provider of key encryption keys
+     */
+    keyProvider: KeyProvider;
+
+    /**
+     * Name of the cipher to encrypt with: `'AES-GCM'` (the default), `'ChaCha20-Poly1305'`,
+     * `'XChaCha20-Poly1305'`, `'AES-CBC-HMAC-SHA256'` or one added with `registerAlgorithm`.
+     * Fields can override it with `@encrypted(algorithm: '...')`. Values record their
+     * cipher, so changing it doesn't affect reading existing data.
+     */
+    algorithm?: string;
+
+    /**
+     * How data keys are shared. `'record'` (the default) generates a new data key
+     * for every encrypted value. A function returns a scope id (e.g. a tenant id);
+     * values in the same scope share a data key until it expires from the cache.
+     */
+    dataKeyScope?: 'record' | ((context: EncryptionContext) => string);
+
+    /**
+     * How long generated and unwrapped data keys are cached, in milliseconds.
+     * Defaults to 5 minutes.
+     */
+    dataKeyTtl?: number;
+
+    /**
+     * Keys of data encrypted directly (without a data key) before adopting a key provider.
+     * Each key can be a Uint8Array (32 bytes) or a string (derived via SHA-256).
+     */
+    previousKeys?: (string | Uint8Array)[];
+
+    /**
+     * Key used to compute blind indexes for `@encrypted(searchable: true)` fields.
+     * Required when the schema has searchable fields.
+     */
+    blindIndexKey?: string | Uint8Array;
+
+    /**
+     * How string keys (`previousKeys`, `blindIndexKey`) are derived to 32-byte keys.
+     * Defaults to a single SHA-256. Data encrypted under SHA-256-derived keys still decrypts.
+     */
+    kdf?: KeyDerivation;
+
+    /**
+     * KDFs `previousKeys` were derived with before `kdf`, also used to decrypt
+     */
+    previousKdfs?: KeyDerivation[];
 };
 
 /**
@@ -27,9 +369,10 @@ export type CustomEncryption = {
      * @param model The model name
      * @param field The field definition
      * @param plain The plaintext value to encrypt
+     * @param context The row and auth context of the value being encrypted
      * @returns The encrypted value
      */
-    encrypt: (model: string, field: FieldDef, plain: string) => Promise<string>;
+    encrypt: (model: string, field: FieldDef, plain: string, context: EncryptionContext) => Promise<string>;
 
     /**
      * Custom decryption function
@@ -39,12 +382,161 @@ export type CustomEncryption = {
      * @returns The decrypted value
      */
     decrypt: (model: string, field: FieldDef, cipher: string) => Promise<string>;
+
+    /**
+     * Custom blind index function, required for `@encrypted(searchable: true)` fields.
+     * Must return the same value for the same plaintext.
+     * @param model The model name
+     * @param field The field definition
+     * @param plain The plaintext value to index
+     * @returns The blind index value
+     */
+    blindIndex?: (model: string, field: FieldDef, plain: string) => Promise<string>;
+
+    /**
+     * Batch encryption function, used instead of `encrypt` when provided. Receives
+     * the values of a query at once (and those of concurrent queries), so a remote
+     * service can process them in one round trip.
+     * @returns The encrypted values, in the order of `items`
+     */
+    encryptMany?: (
+        items: { model: string; field: FieldDef; plain: string; context: EncryptionContext }[],
+    ) => Promise<string[]>;
+
+    /**
+     * Batch decryption function, used instead of `decrypt` when provided. If it
+     * throws, every value of the batch is handled as a decryption error.
+     * @returns The decrypted values, in the order of `items`
+     */
+    decryptMany?: (items: { model: string; field: FieldDef; cipher: string }[]) => Promise<string[]>;
+};
+
+/**
+ * Receives the plugin's warnings. Defaults to `console`.
+ */
+export type EncryptionLogger = {
+    warn(message: string): void;
 };
 
 /**
- * Encryption configuration - either simple (built-in) or custom
+ * What to do when a field value read from the database can't be decrypted:
+ * - `'throw'`: fail the query with a {@link DecryptionError}
+ * - `'null'`: return null for the field
+ * - `'keep'`: return the stored (encrypted) value
+ * - a function: return its result for the field, or throw to fail the query
  */
-export type EncryptionConfig = SimpleEncryption | CustomEncryption;
+export type DecryptErrorPolicy =
+    | 'throw'
+    | 'null'
+    | 'keep'
+    | ((error: DecryptionError) => unknown | Promise<unknown>);
+
+/**
+ * Options shared by every encryption configuration
+ */
+export type EncryptionOptions = {
+    /**
+     * How to handle values that can't be decrypted. Defaults to `'keep'`.
+     */
+    onDecryptError?: DecryptErrorPolicy;
+
+    /**
+     * Receives warnings, e.g. about values that couldn't be decrypted. Defaults to `console`.
+     */
+    logger?: EncryptionLogger;
+
+    /**
+     * Return values that are not encrypted as they are stored, instead of treating
+     * them as decryption errors. Use while adopting `@encrypted` on populated
+     * columns, until `encryptExisting` has converted them. Not supported with
+     * custom encryption, whose ciphertexts can't be told apart from plaintext.
+     */
+    allowPlaintextRead?: boolean;
+
+    /**
+     * Called for each plaintext value read while `allowPlaintextRead` is enabled
+     */
+    onPlaintextRead?: (model: string, field: string) => void;
+
+    /**
+     * Encrypt a row's remaining plaintext values whenever it is updated with
+     * `update`. Costs an extra read per update; a value changed concurrently
+     * between that read and the update may be overwritten.
+     */
+    encryptPlaintextOnWrite?: boolean;
+
+    /**
+     * Bind ciphertexts to where they are stored, so they can't be copied to another
+     * column (`'field'`) or another row (`'row'`) and still decrypt. The binding is
+     * recorded with each value and enforced on decryption. With `'row'`, values
+     * written before the row's id is known (e.g. on create with a generated id)
+     * and deterministic values are bound to the field only. Not supported with
+     * custom encryption.
+     */
+    associatedData?: AssociatedDataScheme;
+
+    /**
+     * Decides whether a value is decrypted for the caller, in addition to the
+     * field's `@encrypted(decryptFor: ...)` condition. Values that aren't are
+     * returned masked (see `mask`) or as null.
+     */
+    canDecrypt?: (context: DecryptionContext) => boolean | Promise<boolean>;
+
+    /**
+     * Masks a value the caller may not decrypt, for fields without an
+     * `@encrypted(mask: '...')` pattern. Without it such values are returned as null.
+     */
+    mask?: (value: unknown, context: DecryptionContext) => unknown;
+
+    /**
+     * Called once per query that encrypted values. Awaited before the query
+     * returns; errors fail the query, after its writes have been made. Finding
+     * the ids of created rows the write didn't return takes a query per model.
+     */
+    onEncrypt?: (event: EncryptionAuditEvent) => void | Promise<void>;
+
+    /**
+     * Called once per query that decrypted values for the caller (masked and
+     * denied values aren't included). Awaited before the query returns; errors fail the query.
+     */
+    onDecrypt?: (event: EncryptionAuditEvent) => void | Promise<void>;
+
+    /**
+     * Return encrypted fields as `EncryptedValue`s decrypted on first
+     * `reveal()`, instead of decrypting every value of every row. `json` sets how
+     * unrevealed values are serialized (defaults to `'redacted'`). Each reveal is
+     * reported to `onDecrypt` as its own event.
+     */
+    lazyDecrypt?: boolean | { json?: EncryptedValueJson };
+
+    /**
+     * How many values of a query are encrypted or decrypted at once. Defaults to 16.
+     * Values batched with custom `encryptMany`/`decryptMany` are not limited.
+     */
+    concurrency?: number;
+
+    /**
+     * What to do when a query filters, sorts, groups or aggregates by an encrypted
+     * field in a way that can't be answered from its encrypted values (e.g. a
+     * `contains` filter or `orderBy`): `'error'` (the default) throws an
+     * `UnsupportedEncryptedFilterError`, `'warn'` logs it once per field and
+     * passes the query on as it is.
+     */
+    unsupportedFilters?: 'error' | 'warn';
+
+    /**
+     * The schema the plugin is used with, validated when the plugin is created so
+     * misuse of `@encrypted` fails fast. Without it, the schema is validated on
+     * the first query. Either way an invalid schema throws a `SchemaValidationError`.
+     */
+    schema?: SchemaDef;
+};
+
+/**
+ * Encryption configuration - simple (built-in), envelope (key provider) or custom
+ */
+export type EncryptionConfig = (SimpleEncryption | KeySourceEncryption | KeyProviderEncryption | CustomEncryption) &
+    EncryptionOptions;
 
 /**
  * Type guard to check if encryption config is custom
@@ -52,3 +544,17 @@ export type EncryptionConfig = SimpleEncryption | CustomEncryption;
 export function isCustomEncryption(config: EncryptionConfig): config is CustomEncryption {
     return 'encrypt' in config && 'decrypt' in config;
 }
+
+/**
+ * Type guard to check if encryption config uses a key provider
+ */
+export function isKeyProviderEncryption(config: EncryptionConfig): config is KeyProviderEncryption {
+    return 'keyProvider' in config;
+}
+
+/**
+ * Type guard to check if encryption config loads its keys from a key source
+ */
+export function isKeySourceEncryption(config: EncryptionConfig): config is KeySourceEncryption {
+    return 'keySource' in config;
+}
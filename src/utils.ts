@@ -1,13 +1,39 @@
 import { z } from 'zod';
+import type { CipherAlgorithm } from './algorithms.js';
+import { getAlgorithm, getAlgorithmById } from './algorithms.js';
+import {
+    AuthenticationFailedError,
+    MalformedEnvelopeError,
+    MissingAssociatedDataError,
+    UnknownKeyError,
+    UnsupportedAlgorithmError,
+    UnsupportedVersionError,
+} from './errors.js';
+import type { KeyDerivation } from './kdf.js';
+import { deriveSecret } from './kdf.js';
 
-export const ENCRYPTER_VERSION = 1;
+export const ENCRYPTER_VERSION = 2;
+export const LEGACY_ENCRYPTER_VERSION = 1;
 export const ENCRYPTION_KEY_BYTES = 32;
 export const IV_BYTES = 12;
 export const ALGORITHM = 'AES-GCM';
+export const DETERMINISTIC_ALGORITHM = 'AES-GCM-HMAC-SIV';
+export const SYNTHETIC_IV_KEY_LABEL = 'zenstack-encryption:synthetic-iv';
+export const FIELD_KEY_LABEL = 'zenstack-encryption:field-key';
 export const KEY_DIGEST_BYTES = 8;
 
 const encoder = new TextEncoder();
 const decoder = new TextDecoder();
+// header strings must be valid UTF-8
+const strictDecoder = new TextDecoder('utf-8', { fatal: true });
+
+// v2 header flags for the optional fields that follow the key id
+const FLAG_TYPE = 1;
+const FLAG_WRAPPED_KEY = 2;
+const FLAG_BINDING = 4;
+const FLAG_SUBKEY = 8;
+// smallest authentication tag of the registered ciphers
+const TAG_BYTES = 16;
 
 const encryptionMetaSchema = z.object({
     // version
@@ -16,17 +42,88 @@ const encryptionMetaSchema = z.object({
     a: z.string(),
     // key digest
     k: z.string(),
+    // type tag of the original value, absent for strings
+    t: z.string().optional(),
+    // wrapped data key, present with envelope encryption
+    w: z.string().optional(),
+    // scheme of the associated data the ciphertext is bound to, absent when unbound
+    d: z.string().optional(),
+    // label of the subkey derived from the key identified by `k`, e.g. `User.ssn`
+    s: z.string().optional(),
 });
 
+export type EncryptionMeta = z.infer<typeof encryptionMetaSchema>;
+
+// v1 metadata only ever had the version, algorithm and key digest
+const legacyMetaSchema = z.strictObject(encryptionMetaSchema.pick({ v: true, a: true, k: true }).shape);
+
+/**
+ * Associated data authenticated along with a ciphertext, binding it to a context
+ */
+export type AssociatedData = {
+    /**
+     * Name of the binding scheme, recorded in the metadata
+     */
+    scheme: string;
+
+    /**
+     * The associated data itself, which is not stored
+     */
+    data: Uint8Array;
+};
+
+/**
+ * Resolves the associated data of a binding scheme when decrypting, or
+ * returns undefined if it isn't available
+ */
+export type AssociatedDataResolver = (scheme: string) => Uint8Array | undefined;
+
+/**
+ * Encode bytes as a base64 string
+ */
+export function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+}
+
+/**
+ * Decode a base64 string to bytes
+ */
+export function fromBase64(text: string): Uint8Array {
+    return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Encode bytes as an unpadded base64url string
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+    return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode an unpadded base64url string to bytes
+ */
+export function fromBase64Url(text: string): Uint8Array {
+    if (!/^[A-Za-z0-9_-]*$/.test(text)) {
+        throw new Error('Invalid base64url');
+    }
+    return fromBase64(text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (text.length % 4)) % 4));
+}
+
 /**
  * Resolve a key input to a Uint8Array. If the input is a string, it is
- * derived to 32 bytes via SHA-256. If it is already a Uint8Array, its
- * length is validated.
+ * derived to 32 bytes with the given key derivation (a single SHA-256 by
+ * default). If it is already a Uint8Array, its length is validated.
  */
-export async function deriveKey(input: string | Uint8Array): Promise<Uint8Array> {
+export async function deriveKey(
+    input: string | Uint8Array,
+    kdf: KeyDerivation = { algorithm: 'sha256' },
+): Promise<Uint8Array> {
     if (typeof input === 'string') {
-        const encoded = new TextEncoder().encode(input);
-        return new Uint8Array(await crypto.subtle.digest('SHA-256', encoded));
+        return deriveSecret(input, kdf);
     }
     if (input.length !== ENCRYPTION_KEY_BYTES) {
         throw new Error(`Encryption key must be ${ENCRYPTION_KEY_BYTES} bytes`);
@@ -34,6 +131,23 @@ export async function deriveKey(input: string | Uint8Array): Promise<Uint8Array>
     return input;
 }
 
+/**
+ * Derive a purpose-specific 32-byte subkey from a key via HMAC-SHA256, so the
+ * same secret is never used directly for two different primitives.
+ */
+export async function deriveSubkey(key: Uint8Array, label: string): Promise<Uint8Array> {
+    const hmacKey = await loadHmacKey(key);
+    return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, encoder.encode(label)));
+}
+
+/**
+ * Load a raw key into an HMAC-SHA256 signing key
+ */
+export async function loadHmacKey(key: Uint8Array): Promise<CryptoKey> {
+    const keyBuffer = key.buffer.slice(key.byteOffset, key.byteOffset + key.byteLength) as ArrayBuffer;
+    return crypto.subtle.importKey('raw', keyBuffer, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+}
+
 /**
  * Load a raw encryption key into a CryptoKey object
  */
@@ -57,66 +171,320 @@ export async function getKeyDigest(key: Uint8Array): Promise<string> {
 }
 
 /**
- * Encrypt data using AES-GCM
+ * Prefix a plaintext with length-prefixed associated data, as input to the synthetic IV
  */
-export async function _encrypt(data: string, key: CryptoKey, keyDigest: string): Promise<string> {
-    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
-    const encrypted = await crypto.subtle.encrypt(
-        {
-            name: ALGORITHM,
-            iv,
-        },
-        key,
-        encoder.encode(data),
-    );
+function withAssociatedData(
+    plain: Uint8Array<ArrayBuffer>,
+    associatedData: Uint8Array | undefined,
+): Uint8Array<ArrayBuffer> {
+    if (!associatedData) {
+        return plain;
+    }
+    const bytes = new Uint8Array(4 + associatedData.length + plain.length);
+    new DataView(bytes.buffer).setUint32(0, associatedData.length);
+    bytes.set(associatedData, 4);
+    bytes.set(plain, 4 + associatedData.length);
+    return bytes;
+}
+
+/**
+ * Encrypt data with a registered cipher, AES-GCM by default.
+ *
+ * When an IV key is given, the IV is synthesized from an HMAC of the plaintext
+ * (and associated data) instead of being random, so equal plaintexts produce
+ * equal ciphertexts. Only AES-GCM supports this.
+ *
+ * A subkey label records that `key` is a subkey derived from the key
+ * identified by `keyDigest`.
+ */
+export async function _encrypt(
+    data: string,
+    key: Uint8Array,
+    keyDigest: string,
+    options: {
+        algorithm?: string;
+        ivKey?: CryptoKey;
+        type?: string;
+        wrappedKey?: string;
+        associatedData?: AssociatedData;
+        subkey?: string;
+    } = {},
+): Promise<string> {
+    const { algorithm = ALGORITHM, ivKey, type, wrappedKey, associatedData, subkey } = options;
+    if (ivKey && algorithm !== ALGORITHM) {
+        throw new Error(`Deterministic encryption is only supported with ${ALGORITHM}, not ${algorithm}`);
+    }
+    const cipher = getAlgorithm(ivKey ? DETERMINISTIC_ALGORITHM : algorithm);
+    if (key.length !== cipher.keyBytes) {
+        throw new Error(`${cipher.name} key must be ${cipher.keyBytes} bytes`);
+    }
 
-    // combine IV and encrypted data into a single array of bytes
-    const cipherBytes = [...iv, ...new Uint8Array(encrypted)];
+    const plain = encoder.encode(data);
+    const iv = ivKey
+        ? new Uint8Array(
+              await crypto.subtle.sign('HMAC', ivKey, withAssociatedData(plain, associatedData?.data)),
+          ).slice(0, cipher.ivBytes)
+        : crypto.getRandomValues(new Uint8Array(cipher.ivBytes));
+    const encrypted = await cipher.encrypt(key, iv, plain, associatedData?.data);
 
     // encryption metadata
-    const meta = { v: ENCRYPTER_VERSION, a: ALGORITHM, k: keyDigest };
+    const meta: EncryptionMeta = { v: ENCRYPTER_VERSION, a: cipher.name, k: keyDigest };
+    if (type) {
+        meta.t = type;
+    }
+    if (wrappedKey) {
+        meta.w = wrappedKey;
+    }
+    if (associatedData) {
+        meta.d = associatedData.scheme;
+    }
+    if (subkey) {
+        meta.s = subkey;
+    }
+
+    // header, IV and encrypted data as a single base64url string
+    return toBase64Url(concatBytes([encodeHeader(meta), iv, encrypted]));
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        bytes.set(part, offset);
+        offset += part.length;
+    }
+    return bytes;
+}
+
+/**
+ * Encode the v2 binary header: version, algorithm id and flags (one byte each),
+ * the key id, then the type tag, wrapped data key, binding scheme and subkey label if flagged.
+ * Strings are UTF-8 with a length prefix (two bytes for the wrapped key, one otherwise).
+ */
+function encodeHeader(meta: EncryptionMeta): Uint8Array {
+    const flags =
+        (meta.t ? FLAG_TYPE : 0) |
+        (meta.w ? FLAG_WRAPPED_KEY : 0) |
+        (meta.d ? FLAG_BINDING : 0) |
+        (meta.s ? FLAG_SUBKEY : 0);
+    const parts = [new Uint8Array([meta.v, getAlgorithm(meta.a).id, flags])];
+
+    const writeString = (value: string, lengthBytes: 1 | 2) => {
+        const bytes = encoder.encode(value);
+        if (bytes.length >= 2 ** (8 * lengthBytes)) {
+            throw new Error(`Encryption metadata value is too long: ${value}`);
+        }
+        parts.push(
+            lengthBytes === 1 ? new Uint8Array([bytes.length]) : new Uint8Array([bytes.length >> 8, bytes.length & 0xff]),
+            bytes,
+        );
+    };
+    writeString(meta.k, 1);
+    if (meta.t) writeString(meta.t, 1);
+    if (meta.w) writeString(meta.w, 2);
+    if (meta.d) writeString(meta.d, 1);
+    if (meta.s) writeString(meta.s, 1);
+
+    return concatBytes(parts);
+}
+
+/**
+ * Decode a v2 binary envelope into its metadata and payload (IV and encrypted data)
+ */
+function decodeBinaryEnvelope(bytes: Uint8Array): { meta: EncryptionMeta; payload: Uint8Array } {
+    let offset = 3;
+    const readString = (lengthBytes: 1 | 2) => {
+        if (offset + lengthBytes > bytes.length) {
+            throw new MalformedEnvelopeError('Malformed metadata');
+        }
+        const length = lengthBytes === 1 ? bytes[offset]! : (bytes[offset]! << 8) | bytes[offset + 1]!;
+        const start = offset + lengthBytes;
+        offset = start + length;
+        if (length === 0 || offset > bytes.length) {
+            throw new MalformedEnvelopeError('Malformed metadata');
+        }
+        try {
+            return strictDecoder.decode(bytes.subarray(start, offset));
+        } catch {
+            throw new MalformedEnvelopeError('Malformed metadata');
+        }
+    };
+
+    if (bytes.length < 3) {
+        throw new MalformedEnvelopeError();
+    }
+    const version = bytes[0]!;
+    const algorithmId = bytes[1]!;
+    const flags = bytes[2]!;
+    if (version > ENCRYPTER_VERSION) {
+        throw new UnsupportedVersionError(version);
+    }
+    if (version !== ENCRYPTER_VERSION || flags & ~15) {
+        throw new MalformedEnvelopeError('Malformed metadata');
+    }
+    const algorithm = getEnvelopeAlgorithm(algorithmId);
 
-    // convert concatenated result to base64 string
-    return `${btoa(JSON.stringify(meta))}.${btoa(String.fromCharCode(...cipherBytes))}`;
+    const meta: EncryptionMeta = { v: version, a: algorithm.name, k: readString(1) };
+    if (flags & FLAG_TYPE) meta.t = readString(1);
+    if (flags & FLAG_WRAPPED_KEY) meta.w = readString(2);
+    if (flags & FLAG_BINDING) meta.d = readString(1);
+    if (flags & FLAG_SUBKEY) meta.s = readString(1);
+
+    const payload = bytes.subarray(offset);
+    if (payload.length < algorithm.ivBytes + TAG_BYTES) {
+        throw new MalformedEnvelopeError();
+    }
+    return { meta, payload };
 }
 
 /**
- * Decrypt data using AES-GCM
+ * Get the cipher an envelope names, by v2 header id or v1 name
  */
-export async function _decrypt(data: string, findKey: (digest: string) => Promise<CryptoKey[]>): Promise<string> {
-    const [metaText, cipherText] = data.split('.');
-    if (!metaText || !cipherText) {
-        throw new Error('Malformed encrypted data');
+function getEnvelopeAlgorithm(algorithm: string | number): CipherAlgorithm {
+    try {
+        return typeof algorithm === 'number' ? getAlgorithmById(algorithm) : getAlgorithm(algorithm);
+    } catch {
+        throw new UnsupportedAlgorithmError(algorithm);
+    }
+}
+
+/**
+ * Parse encrypted data into its metadata and payload (IV and encrypted data).
+ * v1 data is `base64(JSON meta).base64(payload)`; v2 data is a base64url
+ * binary envelope, told apart by having no `.` separator. Parsing is strict:
+ * anything but the canonical encoding of a complete envelope is rejected.
+ */
+function parseEnvelope(data: string): { meta: EncryptionMeta; payload: Uint8Array } {
+    if (!data.includes('.')) {
+        let bytes: Uint8Array;
+        try {
+            bytes = fromBase64Url(data);
+        } catch {
+            throw new MalformedEnvelopeError();
+        }
+        // e.g. a stray trailing character decodes to no extra byte
+        if (toBase64Url(bytes) !== data) {
+            throw new MalformedEnvelopeError();
+        }
+        return decodeBinaryEnvelope(bytes);
+    }
+
+    const segments = data.split('.');
+    const [metaText, cipherText] = segments;
+    if (segments.length !== 2 || !metaText || !cipherText) {
+        throw new MalformedEnvelopeError();
     }
 
     let metaObj: unknown;
     try {
         metaObj = JSON.parse(atob(metaText));
     } catch {
-        throw new Error('Malformed metadata');
+        throw new MalformedEnvelopeError('Malformed metadata');
+    }
+
+    const version = (metaObj as { v?: unknown } | null)?.v;
+    if (typeof version === 'number' && version !== LEGACY_ENCRYPTER_VERSION) {
+        throw new UnsupportedVersionError(version);
+    }
+    const parsed = legacyMetaSchema.safeParse(metaObj);
+    if (!parsed.success || parsed.data.v !== LEGACY_ENCRYPTER_VERSION) {
+        throw new MalformedEnvelopeError('Malformed metadata');
+    }
+    const meta: EncryptionMeta = parsed.data;
+    const algorithm = getEnvelopeAlgorithm(meta.a);
+
+    let payload: Uint8Array;
+    try {
+        payload = fromBase64(cipherText);
+    } catch {
+        throw new MalformedEnvelopeError();
     }
+    if (toBase64(payload) !== cipherText || payload.length < algorithm.ivBytes + TAG_BYTES) {
+        throw new MalformedEnvelopeError();
+    }
+    return { meta, payload };
+}
+
+/**
+ * Read the metadata of encrypted data without decrypting it
+ */
+export function readEncryptionMeta(data: string): EncryptionMeta {
+    return parseEnvelope(data).meta;
+}
 
-    // parse meta
-    const { a: algorithm, k: keyDigest } = encryptionMetaSchema.parse(metaObj);
+/**
+ * Get the raw bytes of v2 encrypted data, e.g. to store in a binary column.
+ * Returns undefined for data in another format.
+ */
+export function toEnvelopeBytes(data: string): Uint8Array | undefined {
+    try {
+        if (readEncryptionMeta(data).v === ENCRYPTER_VERSION) {
+            return fromBase64Url(data);
+        }
+    } catch {
+        // not encrypted data
+    }
+    return undefined;
+}
+
+/**
+ * Restore v2 encrypted data from its raw bytes, or return undefined if the bytes
+ * aren't a v2 envelope
+ */
+export function fromEnvelopeBytes(bytes: Uint8Array): string | undefined {
+    return bytes[0] === ENCRYPTER_VERSION ? toBase64Url(bytes) : undefined;
+}
+
+/**
+ * Check if a string is in the encrypted data format, e.g. to tell it apart
+ * from plaintext written before a field was encrypted
+ */
+export function isEncryptedData(data: string): boolean {
+    try {
+        readEncryptionMeta(data);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Decrypt data with the cipher recorded in its metadata. Data bound to
+ * associated data can only be decrypted with the same associated data.
+ */
+export async function _decrypt(
+    data: string,
+    findKey: (digest: string, meta: EncryptionMeta) => Promise<Uint8Array[]>,
+    getAssociatedData?: AssociatedDataResolver,
+): Promise<string> {
+    // parse meta, dispatching on the format version
+    const { meta, payload } = parseEnvelope(data);
+    const cipher = getAlgorithm(meta.a);
+
+    // resolve the associated data the ciphertext is bound to
+    let additionalData: Uint8Array | undefined;
+    if (meta.d !== undefined) {
+        additionalData = getAssociatedData?.(meta.d);
+        if (!additionalData) {
+            throw new MissingAssociatedDataError(meta.d);
+        }
+    }
 
     // find a matching decryption key
-    const keys = await findKey(keyDigest);
+    const keys = await findKey(meta.k, meta);
     if (keys.length === 0) {
-        throw new Error('No matching decryption key found');
+        throw new UnknownKeyError(meta.k);
     }
 
-    // convert base64 back to bytes
-    const bytes = Uint8Array.from(atob(cipherText), (c) => c.charCodeAt(0));
-
     // extract IV from the head
-    const iv = bytes.slice(0, IV_BYTES);
-    const cipher = bytes.slice(IV_BYTES);
+    const iv = payload.subarray(0, cipher.ivBytes);
+    const encrypted = payload.subarray(cipher.ivBytes);
     let lastError: unknown;
 
     for (const key of keys) {
-        let decrypted: ArrayBuffer;
+        let decrypted: Uint8Array;
         try {
-            decrypted = await crypto.subtle.decrypt({ name: algorithm, iv }, key, cipher);
+            decrypted = await cipher.decrypt(key, iv, encrypted, additionalData);
         } catch (err) {
             lastError = err;
             continue;
@@ -124,7 +492,5 @@ export async function _decrypt(data: string, findKey: (digest: string) => Promis
         return decoder.decode(decrypted);
     }
 
-    throw lastError instanceof Error
-        ? lastError
-        : new Error('Decryption failed with all available keys');
+    throw new AuthenticationFailedError(meta.k, lastError);
 }
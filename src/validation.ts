@@ -0,0 +1,272 @@
+import type { AttributeApplication, FieldDef, ModelDef, SchemaDef } from '@zenstackhq/orm/schema';
+import { getAlgorithm } from './algorithms.js';
+import {
+    getAttributeArg,
+    getBlindIndexFieldName,
+    getEncryptedAttribute,
+    getStorageFieldName,
+    isDeterministicField,
+    isEncryptedField,
+    isSearchableField,
+} from './schema.js';
+import { ENCRYPTABLE_FIELD_TYPES, STORAGE_FIELD_TYPES } from './serialization.js';
+
+/**
+ * Options for {@link validateEncryptedSchema}, describing what the encryption
+ * configuration supports
+ */
+export type SchemaValidationOptions = {
+    /**
+     * Ids of the named keys fields may select with `@encrypted(keyId: '...')`.
+     * Defaults to none.
+     */
+    keyIds?: readonly string[];
+
+    /**
+     * Whether blind indexes can be computed for searchable fields. Defaults to true.
+     */
+    blindIndex?: boolean;
+
+    /**
+     * Whether blind indexes stay the same when the keys are reloaded, which they
+     * don't with a key source and no `blindIndexKey`. Defaults to true.
+     */
+    stableBlindIndex?: boolean;
+};
+
+// the parameters of @encrypted, by the kind of literal they take
+const BOOLEAN_PARAMS = ['searchable', 'deterministic'];
+const STRING_PARAMS = ['blindIndex', 'algorithm', 'mask', 'keyId', 'storage'];
+const EXPRESSION_PARAMS = ['decryptFor'];
+
+/**
+ * Check how `@encrypted` is used in a schema, returning a description of each
+ * problem found: attributes on fields whose columns can't hold encrypted data
+ * and that have no storage field to hold it, or whose values the database must be
+ * able to read (ids, defaults, relation keys, unique constraints and indexes of
+ * non-deterministic fields), and invalid attribute parameters.
+ *
+ * @param schema The schema
+ * @param options What the encryption configuration supports
+ * @returns The problems found, empty if the schema is valid
+ */
+export function validateEncryptedSchema(schema: SchemaDef, options: SchemaValidationOptions = {}): string[] {
+    const problems: string[] = [];
+
+    for (const [modelName, model] of Object.entries(schema.models)) {
+        for (const field of Object.values(model.fields)) {
+            // inherited fields are checked on the model declaring them
+            if (field.originModel || !isEncryptedField(field)) continue;
+            const name = `${modelName}.${field.name}`;
+            problems.push(...checkEncryptedField(name, field, options));
+            problems.push(...checkModelField(name, model, field));
+        }
+        problems.push(...checkIndexes(modelName, model));
+    }
+
+    for (const [typeName, typeDef] of Object.entries(schema.typeDefs ?? {})) {
+        for (const field of Object.values(typeDef.fields)) {
+            if (!isEncryptedField(field)) continue;
+            const name = `${typeName}.${field.name}`;
+            problems.push(...checkEncryptedField(name, field, options));
+            if (getAttributeArg(getEncryptedAttribute(field)!, 'searchable') === true) {
+                problems.push(`${name}: searchable is not supported on fields of type definitions`);
+            }
+            if (getStorageFieldName(field) !== undefined) {
+                problems.push(`${name}: storage is not supported on fields of type definitions`);
+            }
+        }
+    }
+
+    problems.push(...checkRelationKeys(schema));
+    return problems;
+}
+
+/**
+ * Check an encrypted field's type and attribute parameters
+ */
+function checkEncryptedField(name: string, field: FieldDef, options: SchemaValidationOptions): string[] {
+    const problems: string[] = [];
+    const storage = getStorageFieldName(field);
+    if (STORAGE_FIELD_TYPES.includes(field.type)) {
+        if (storage === undefined) {
+            problems.push(
+                `${name}: @encrypted on ${field.type} fields requires a String or Bytes field to store the ` +
+                    `encrypted value, e.g. @encrypted(storage: '${field.name}Encrypted')`,
+            );
+        }
+    } else if (!ENCRYPTABLE_FIELD_TYPES.includes(field.type)) {
+        problems.push(
+            `${name}: @encrypted is only supported on String, Json and Bytes fields, and with a storage field on ` +
+                `${STORAGE_FIELD_TYPES.join(', ')} fields (type: ${field.type})`,
+        );
+    } else if (storage !== undefined) {
+        problems.push(`${name}: storage is only supported on fields whose columns can't hold encrypted values`);
+    }
+    if (field.computed) {
+        problems.push(`${name}: computed fields can't be encrypted`);
+    }
+    if (field.array) {
+        problems.push(`${name}: list fields can't be encrypted`);
+    }
+
+    const attr = getEncryptedAttribute(field)!;
+    problems.push(...checkParams(name, attr));
+
+    const searchable = getAttributeArg(attr, 'searchable') === true;
+    const deterministic = getAttributeArg(attr, 'deterministic') === true;
+    const algorithm = getAttributeArg(attr, 'algorithm');
+    const keyId = getAttributeArg(attr, 'keyId');
+    const keyIds = options.keyIds ?? [];
+
+    if (searchable && field.type !== 'String') {
+        problems.push(`${name}: searchable is only supported on String fields`);
+    }
+    if (searchable && options.blindIndex === false) {
+        problems.push(`${name}: searchable requires a blindIndex function in the custom encryption config`);
+    }
+    if (searchable && options.stableBlindIndex === false) {
+        problems.push(`${name}: searchable requires a blindIndexKey with a keySource, so lookups survive key rotation`);
+    }
+    if (storage !== undefined && deterministic) {
+        problems.push(`${name}: deterministic is not supported on fields with a storage field`);
+    }
+    if (typeof algorithm === 'string') {
+        if (deterministic) {
+            problems.push(`${name}: algorithm can't be combined with deterministic, which always uses AES-GCM`);
+        }
+        try {
+            getAlgorithm(algorithm);
+        } catch (error) {
+            problems.push(`${name}: ${(error as Error).message}`);
+        }
+    }
+    if (typeof keyId === 'string' && !keyIds.includes(keyId)) {
+        const known = keyIds.length > 0 ? `configured: ${keyIds.join(', ')}` : 'no named keys are configured';
+        problems.push(`${name}: unknown key id "${keyId}" (${known})`);
+    }
+    return problems;
+}
+
+/**
+ * Check that the parameters of an @encrypted attribute are known and of the right kind
+ */
+function checkParams(name: string, attr: AttributeApplication): string[] {
+    const problems: string[] = [];
+    for (const arg of attr.args ?? []) {
+        const param = arg.name ?? '';
+        const literal = arg.value.kind === 'literal' ? arg.value.value : undefined;
+        if (BOOLEAN_PARAMS.includes(param)) {
+            if (typeof literal !== 'boolean') problems.push(`${name}: ${param} must be true or false`);
+        } else if (STRING_PARAMS.includes(param)) {
+            if (typeof literal !== 'string' || literal === '') problems.push(`${name}: ${param} must be a string`);
+        } else if (!EXPRESSION_PARAMS.includes(param)) {
+            problems.push(`${name}: unknown @encrypted parameter "${param}"`);
+        }
+    }
+    return problems;
+}
+
+/**
+ * Check that the database doesn't need to read or generate an encrypted model field's value
+ */
+function checkModelField(name: string, model: ModelDef, field: FieldDef): string[] {
+    const problems: string[] = [];
+    const isId = field.id || model.idFields.includes(field.name);
+    if (isId) {
+        problems.push(`${name}: id fields can't be encrypted`);
+    }
+    if (field.default !== undefined) {
+        problems.push(`${name}: encrypted fields can't have a @default, which would be stored unencrypted`);
+    }
+    if (field.isDiscriminator) {
+        problems.push(`${name}: discriminator fields can't be encrypted`);
+    }
+    if (field.relation) {
+        problems.push(`${name}: relation fields can't be encrypted`);
+    }
+
+    if (isUnique(model, field) && !isId && !isDeterministicField(field)) {
+        problems.push(`${name}: unique constraints on encrypted fields require deterministic: true`);
+    }
+    if (isSearchableField(field)) {
+        const indexName = getBlindIndexFieldName(field);
+        const indexField = model.fields[indexName];
+        if (indexField?.type !== 'String') {
+            problems.push(`${name}: searchable requires a String field "${indexName}" to store its blind index`);
+        }
+    }
+    const storage = getStorageFieldName(field);
+    if (storage !== undefined && STORAGE_FIELD_TYPES.includes(field.type)) {
+        const storageField = model.fields[storage];
+        if (storageField?.type !== 'String' && storageField?.type !== 'Bytes') {
+            problems.push(
+                `${name}: storage requires a String or Bytes field "${storage}" to store the encrypted value`,
+            );
+        } else if (isEncryptedField(storageField) || storageField.array || storageField.computed) {
+            problems.push(`${name}: the storage field "${storage}" can't be encrypted, a list or computed`);
+        }
+        if (!field.optional) {
+            problems.push(`${name}: fields with a storage field must be optional, their own column is left empty`);
+        }
+    }
+    return problems;
+}
+
+/**
+ * Check if a field is covered by a unique constraint
+ */
+function isUnique(model: ModelDef, field: FieldDef): boolean {
+    // single-field unique constraints are keyed by the field, compound ones list their fields
+    return (
+        !!field.unique ||
+        Object.entries(model.uniqueFields).some(([key, info]) =>
+            typeof info.type === 'string' ? key === field.name : field.name in info,
+        )
+    );
+}
+
+/**
+ * Check that indexes only cover encrypted fields whose values can be compared
+ */
+function checkIndexes(modelName: string, model: ModelDef): string[] {
+    const problems: string[] = [];
+    for (const attr of model.attributes ?? []) {
+        if (attr.name !== '@@index') continue;
+        const fields = attr.args?.find((arg) => arg.name === 'fields' || arg.name === undefined)?.value;
+        if (fields?.kind !== 'array') continue;
+
+        for (const item of fields.items) {
+            const field = item.kind === 'field' ? model.fields[item.field] : undefined;
+            if (field && isEncryptedField(field) && !isDeterministicField(field)) {
+                problems.push(`${modelName}.${field.name}: indexes on encrypted fields require deterministic: true`);
+            }
+        }
+    }
+    return problems;
+}
+
+/**
+ * Check that no relation joins on an encrypted field
+ */
+function checkRelationKeys(schema: SchemaDef): string[] {
+    const problems: string[] = [];
+    for (const [modelName, model] of Object.entries(schema.models)) {
+        for (const field of Object.values(model.fields)) {
+            if (!field.relation || field.originModel) continue;
+            const { fields = [], references = [] } = field.relation;
+            const keys = [
+                ...fields.map((key) => [modelName, key] as const),
+                ...references.map((key) => [field.type, key] as const),
+            ];
+            for (const [keyModel, key] of keys) {
+                const keyField = schema.models[keyModel]?.fields[key];
+                if (keyField && isEncryptedField(keyField)) {
+                    const relation = `${modelName}.${field.name}`;
+                    problems.push(`${keyModel}.${key}: encrypted fields can't be relation keys (used by ${relation})`);
+                }
+            }
+        }
+    }
+    return problems;
+}
@@ -0,0 +1,78 @@
+import type { SchemaDef } from '@zenstackhq/orm/schema';
+import { describe, expect, it } from 'vitest';
+import { encryption } from '../src/plugin.js';
+
+const encrypted = (name: string) => ({ name, type: 'String', attributes: [{ name: '@encrypted' }] });
+
+const schema = {
+    provider: { type: 'sqlite' },
+    plugins: {},
+    models: {
+        Patient: {
+            name: 'Patient',
+            idFields: ['id'],
+            uniqueFields: { id: { type: 'Int' } },
+            fields: {
+                id: { name: 'id', type: 'Int', id: true },
+                name: encrypted('name'),
+                ssn: encrypted('ssn'),
+                diagnosis: encrypted('diagnosis'),
+            },
+        },
+    },
+} as unknown as SchemaDef;
+
+type Row = Record<string, unknown>;
+
+async function runQuery(plugin: ReturnType<typeof encryption>, operation: string, args: Row, result: unknown = null) {
+    let proceededArgs: Row | undefined;
+    const output = await plugin.onQuery!({
+        model: 'Patient',
+        operation,
+        args,
+        proceed: async (next: Row) => {
+            proceededArgs = next;
+            return result;
+        },
+        client: { schema },
+    } as never);
+    return { args: proceededArgs, output };
+}
+
+const patients = (count: number) =>
+    Array.from({ length: count }, (_, i) => ({ id: i, name: `Patient ${i}`, ssn: `123-45-${i}`, diagnosis: 'flu' }));
+
+describe('Benchmark', () => {
+    it('encrypts and decrypts 5,000 rows with three encrypted fields', async () => {
+        const plugin = encryption({ key: 'benchmark-secret' });
+        const data = patients(5000);
+
+        const { args } = await runQuery(plugin, 'createMany', { data });
+        const { output } = await runQuery(plugin, 'findMany', {}, args!['data']);
+        expect(output).toEqual(data);
+    });
+
+    it('overlaps remote decryption calls up to the concurrency limit', async () => {
+        // a KMS-backed handler, recording how many calls are in flight at once
+        const inFlight = { current: 0, max: 0 };
+        const config = {
+            encrypt: async (_m: string, _f: unknown, v: string) => v,
+            decrypt: async (_m: string, _f: unknown, v: string) => {
+                inFlight.max = Math.max(inFlight.max, ++inFlight.current);
+                await new Promise((resolve) => setTimeout(resolve, 1));
+                inFlight.current--;
+                return v;
+            },
+        };
+        const maxInFlight = async (plugin: ReturnType<typeof encryption>) => {
+            inFlight.max = 0;
+            await runQuery(plugin, 'findMany', {}, patients(200));
+            return inFlight.max;
+        };
+
+        expect(await maxInFlight(encryption({ ...config, concurrency: 1 }))).toBe(1);
+        expect(await maxInFlight(encryption({ ...config, concurrency: 8 }))).toBe(8);
+        // the default
+        expect(await maxInFlight(encryption(config))).toBe(16);
+    });
+});
@@ -0,0 +1,216 @@
+import type { SchemaDef } from '@zenstackhq/orm/schema';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { runCli } from '../src/cli.js';
+import { Decrypter } from '../src/decrypter.js';
+import { Encrypter } from '../src/encrypter.js';
+import { scanEncryptedValues } from '../src/scan.js';
+import { deriveKey, getKeyDigest, readEncryptionMeta, toBase64 } from '../src/utils.js';
+
+async function run(...args: string[]) {
+    let stdout = '';
+    let stderr = '';
+    const code = await runCli(args, {
+        stdout: (text) => (stdout += text),
+        stderr: (text) => (stderr += text),
+        cwd: tmpdir(),
+    });
+    return { code, stdout: stdout.trim(), stderr };
+}
+
+const schema = {
+    provider: { type: 'sqlite' },
+    plugins: {},
+    models: {
+        User: {
+            name: 'User',
+            idFields: ['id'],
+            uniqueFields: { id: { type: 'Int' } },
+            fields: {
+                id: { name: 'id', type: 'Int', id: true },
+                name: { name: 'name', type: 'String' },
+                ssn: { name: 'ssn', type: 'String', optional: true, attributes: [{ name: '@encrypted' }] },
+            },
+        },
+    },
+} as unknown as SchemaDef;
+
+describe('CLI', () => {
+    let dir: string | undefined;
+
+    afterEach(async () => {
+        if (dir) await rm(dir, { recursive: true, force: true });
+        dir = undefined;
+    });
+
+    it('generates keys in base64 and hex', async () => {
+        const base64 = await run('generate-key');
+        expect(base64.code).toBe(0);
+        expect(atob(base64.stdout)).toHaveLength(32);
+
+        const hex = await run('generate-key', '--format', 'hex');
+        expect(hex.stdout).toMatch(/^[0-9a-f]{64}$/);
+
+        expect((await run('generate-key', '--format=pem')).code).toBe(1);
+    });
+
+    it('prints the digest of secret strings and raw keys', async () => {
+        const key = await deriveKey('my-secret');
+        const digest = await getKeyDigest(key);
+
+        expect((await run('key-digest', '--key', 'my-secret')).stdout).toBe(digest);
+        expect((await run('key-digest', '--key', `base64:${toBase64(key)}`)).stdout).toBe(digest);
+        const hex = Array.from(key, (b) => b.toString(16).padStart(2, '0')).join('');
+        expect((await run('key-digest', `--key=hex:${hex}`)).stdout).toBe(digest);
+
+        const hkdf = await deriveKey('my-secret', { algorithm: 'hkdf' });
+        const derived = await run('key-digest', '--key', 'my-secret', '--kdf', '{"algorithm":"hkdf"}');
+        expect(derived.stdout).toBe(await getKeyDigest(hkdf));
+    });
+
+    it('inspects an envelope', async () => {
+        const key = await deriveKey('my-secret');
+        const value = await new Encrypter(key).encrypt('123', { type: 'Int', subkey: 'User.ssn' });
+
+        const { code, stdout } = await run('inspect', value);
+        expect(code).toBe(0);
+        expect(JSON.parse(stdout)).toEqual({
+            version: 2,
+            algorithm: 'AES-GCM',
+            keyId: await getKeyDigest(key),
+            type: 'Int',
+            wrappedKey: false,
+            subkey: 'User.ssn',
+        });
+
+        const malformed = await run('inspect', 'not-encrypted');
+        expect(malformed.code).toBe(1);
+        expect(malformed.stderr).toMatch(/^Error: /);
+    });
+
+    it('encrypts and decrypts values, with any of the previous keys', async () => {
+        const encrypted = await run('encrypt', 'hello', '--key', 'old-secret');
+        expect(encrypted.code).toBe(0);
+        expect(await new Decrypter([await deriveKey('old-secret')]).decrypt(encrypted.stdout)).toBe('hello');
+
+        const decrypted = await run('decrypt', encrypted.stdout, '--key', 'new-secret', '--key', 'old-secret');
+        expect(decrypted).toMatchObject({ code: 0, stdout: 'hello' });
+
+        expect((await run('decrypt', encrypted.stdout, '--key', 'other-secret')).code).toBe(1);
+    });
+
+    it('binds values to a field or row', async () => {
+        const binding = ['--model', 'User', '--field', 'ssn', '--id', '42'];
+        const { stdout } = await run('encrypt', '123-45-6789', '--key', 'secret', '--subkey', 'User.ssn', ...binding);
+        expect(readEncryptionMeta(stdout)).toMatchObject({ d: 'row', s: 'User.ssn' });
+
+        expect((await run('decrypt', stdout, '--key', 'secret', ...binding)).stdout).toBe('123-45-6789');
+        const wrongRow = ['--model', 'User', '--field', 'ssn', '--id', '7'];
+        expect((await run('decrypt', stdout, '--key', 'secret', ...wrongRow)).code).toBe(1);
+        expect((await run('decrypt', stdout, '--key', 'secret')).code).toBe(1);
+    });
+
+    it('encrypts and decrypts with a keyring file', async () => {
+        dir = await mkdtemp(join(tmpdir(), 'zenstack-encryption-'));
+        const kek = toBase64(crypto.getRandomValues(new Uint8Array(32)));
+        await writeFile(join(dir, 'keyring.json'), JSON.stringify({ currentKeyId: 'k1', keys: { k1: kek } }));
+        const keyring = join(dir, 'keyring.json');
+
+        const encrypted = await run('encrypt', 'hello', '--keyring', keyring);
+        expect(readEncryptionMeta(encrypted.stdout)).toMatchObject({ k: 'k1' });
+        expect((await run('decrypt', encrypted.stdout, '--keyring', keyring)).stdout).toBe('hello');
+
+        // values encrypted directly with a key before envelope encryption was adopted
+        const legacy = await run('encrypt', 'old', '--key', 'secret');
+        expect((await run('decrypt', legacy.stdout, '--keyring', keyring, '--key', 'secret')).stdout).toBe('old');
+    });
+
+    it('scans a database through a client module', async () => {
+        const key = await deriveKey('secret');
+        dir = await mkdtemp(join(tmpdir(), 'zenstack-encryption-'));
+        const rows = [
+            { id: 1, ssn: await new Encrypter(key).encrypt('1') },
+            { id: 2, ssn: await new Encrypter(key).encrypt('2') },
+            { id: 3, ssn: 'plaintext' },
+            { id: 4, ssn: null },
+        ];
+        await writeFile(
+            join(dir, 'client.mjs'),
+            `const rows = ${JSON.stringify(rows)};
+            export const client = {
+                $schema: ${JSON.stringify(schema)},
+                user: { findMany: async ({ skip, take }) => rows.slice(skip, skip + take) },
+                $disconnect: async () => { globalThis.scanClientDisconnected = true; },
+            };`,
+        );
+
+        const { code, stdout } = await run('scan', '--client', join(dir, 'client.mjs'), '--batch-size', '3');
+        expect(code).toBe(0);
+        const digest = await getKeyDigest(key);
+        expect(JSON.parse(stdout)).toEqual({
+            scanned: 4,
+            values: 3,
+            malformed: 1,
+            keys: { [digest]: 2 },
+            models: { User: { scanned: 4, values: 3, malformed: 1, keys: { [digest]: 2 } } },
+        });
+        expect((globalThis as { scanClientDisconnected?: boolean }).scanClientDisconnected).toBe(true);
+
+        expect((await run('scan')).stderr).toContain('--client is required');
+    });
+
+    it('validates a schema module', async () => {
+        dir = await mkdtemp(join(tmpdir(), 'zenstack-encryption-'));
+        await writeFile(join(dir, 'valid.mjs'), `export const schema = ${JSON.stringify(schema)};`);
+        const invalid = structuredClone(schema) as unknown as { models: { User: { fields: Record<string, object> } } };
+        invalid.models.User.fields['ssn'] = { ...invalid.models.User.fields['ssn'], unique: true };
+        await writeFile(join(dir, 'invalid.mjs'), `export default ${JSON.stringify(invalid)};`);
+
+        expect(await run('validate', '--schema', join(dir, 'valid.mjs'))).toMatchObject({ code: 0 });
+        const { code, stderr } = await run('validate', '--schema', join(dir, 'invalid.mjs'));
+        expect(code).toBe(1);
+        expect(stderr).toContain('User.ssn: unique constraints on encrypted fields require deterministic: true');
+    });
+
+    it('prints usage and rejects unknown commands', async () => {
+        expect((await run()).stdout).toContain('Usage: zenstack-encryption');
+        expect((await run('--help')).code).toBe(0);
+        expect(await run('rotate')).toMatchObject({ code: 1, stderr: expect.stringContaining('Unknown command') });
+        expect((await run('key-digest', '--key')).stderr).toContain('Option --key requires a value');
+    });
+});
+
+describe('scanEncryptedValues', () => {
+    it('reads raw values, bypassing the plugin', async () => {
+        const key = await deriveKey('secret');
+        const raw = { user: { findMany: async () => [{ id: 1, ssn: await new Encrypter(key).encrypt('1') }] } };
+        const client = { $schema: schema, $unuse: (id: string) => (id === 'encryption' ? raw : undefined) };
+
+        const result = await scanEncryptedValues(client);
+        expect(result.keys).toEqual({ [await getKeyDigest(key)]: 1 });
+        await expect(scanEncryptedValues(client, { models: ['Post'] })).rejects.toThrow('Unknown model "Post"');
+    });
+
+    it('counts the values of fields typed with a type definition', async () => {
+        const key = await deriveKey('secret');
+        const typedSchema = structuredClone(schema) as unknown as {
+            models: Record<string, { fields: Record<string, unknown> }>;
+            typeDefs: Record<string, unknown>;
+        };
+        typedSchema.models['User']!.fields['address'] = { name: 'address', type: 'Address', optional: true };
+        typedSchema.typeDefs = {
+            Address: {
+                name: 'Address',
+                fields: { street: { name: 'street', type: 'String', attributes: [{ name: '@encrypted' }] } },
+            },
+        };
+        const address = { street: await new Encrypter(key).encrypt('1 Main St') };
+        const raw = { user: { findMany: async () => [{ id: 1, ssn: null, address }] } };
+        const client = { $schema: typedSchema, $unuse: () => raw };
+
+        const result = await scanEncryptedValues(client);
+        expect(result).toMatchObject({ values: 1, keys: { [await getKeyDigest(key)]: 1 } });
+    });
+});
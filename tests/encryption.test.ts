@@ -1,8 +1,37 @@
-import { describe, expect, it } from 'vitest';
+import Decimal from 'decimal.js';
+import { describe, expect, it, vi } from 'vitest';
+import type { CipherAlgorithm } from '../src/algorithms.js';
+import { getAlgorithm, hchacha20, registerAlgorithm } from '../src/algorithms.js';
+import { BlindIndexer } from '../src/blind-index.js';
+import type { KeyDerivation } from '../src/kdf.js';
 import { Decrypter } from '../src/decrypter.js';
 import { Encrypter } from '../src/encrypter.js';
+import { EnvelopeCipher } from '../src/envelope.js';
+import {
+    AuthenticationFailedError,
+    MalformedEnvelopeError,
+    UnknownKeyError,
+    UnsupportedAlgorithmError,
+    UnsupportedVersionError,
+} from '../src/errors.js';
+import { LocalKeyProvider } from '../src/key-provider.js';
+import { deserializeValue, serializeValue } from '../src/serialization.js';
+import type { KeyProvider } from '../src/types.js';
 import { isCustomEncryption } from '../src/types.js';
-import { deriveKey, ENCRYPTION_KEY_BYTES } from '../src/utils.js';
+import {
+    deriveKey,
+    DETERMINISTIC_ALGORITHM,
+    ENCRYPTER_VERSION,
+    ENCRYPTION_KEY_BYTES,
+    fromBase64Url,
+    getKeyDigest,
+    IV_BYTES,
+    loadKey,
+    readEncryptionMeta,
+    toBase64,
+    toBase64Url,
+    toEnvelopeBytes,
+} from '../src/utils.js';
 
 function randomKey(): Uint8Array {
     const key = new Uint8Array(ENCRYPTION_KEY_BYTES);
@@ -55,6 +84,298 @@ describe('Encrypt / Decrypt', () => {
     });
 });
 
+describe('Envelope format', () => {
+    /**
+     * Encrypt in the v1 format: `base64(JSON meta).base64(iv + ciphertext)`
+     */
+    async function encryptV1(key: Uint8Array, plain: string): Promise<string> {
+        const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+        const cipher = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv },
+            await loadKey(key, ['encrypt']),
+            new TextEncoder().encode(plain),
+        );
+        const meta = { v: 1, a: 'AES-GCM', k: await getKeyDigest(key) };
+        return `${btoa(JSON.stringify(meta))}.${toBase64(new Uint8Array([...iv, ...new Uint8Array(cipher)]))}`;
+    }
+
+    it('writes compact v2 envelopes', async () => {
+        const key = randomKey();
+        const encrypted = await new Encrypter(key).encrypt('secret');
+
+        expect(encrypted).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(readEncryptionMeta(encrypted)).toEqual({ v: ENCRYPTER_VERSION, a: 'AES-GCM', k: await getKeyDigest(key) });
+        // header (3 bytes + key id) + IV + tag, base64url encoded
+        expect(encrypted.length - 'secret'.length).toBeLessThan(70);
+        expect(toEnvelopeBytes(encrypted)![0]).toBe(ENCRYPTER_VERSION);
+    });
+
+    it('still reads v1 data', async () => {
+        const key = randomKey();
+        const encrypted = await encryptV1(key, 'legacy secret');
+
+        expect(readEncryptionMeta(encrypted).v).toBe(1);
+        expect(await new Decrypter([key]).decrypt(encrypted)).toBe('legacy secret');
+        expect(toEnvelopeBytes(encrypted)).toBeUndefined();
+    });
+
+    it('handles large values', async () => {
+        const key = randomKey();
+        const large = 'x'.repeat(1024 * 1024);
+        const encrypted = await new Encrypter(key).encrypt(large);
+        expect(await new Decrypter([key]).decrypt(encrypted)).toBe(large);
+    });
+
+    it('rejects truncated and unknown envelopes', async () => {
+        const encrypted = await new Encrypter(randomKey()).encrypt('secret');
+        expect(() => readEncryptionMeta(encrypted.slice(0, 10))).toThrow('Malformed');
+        expect(() => readEncryptionMeta(`${btoa(JSON.stringify({ v: 3, a: 'AES-GCM', k: 'k' }))}.AAAA`)).toThrow(
+            'Unsupported encryption version 3',
+        );
+    });
+
+    it('parses envelopes strictly', async () => {
+        const key = randomKey();
+        const encrypted = await new Encrypter(key).encrypt('secret');
+        const bytes = fromBase64Url(encrypted);
+        const withByte = (index: number, value: number) => {
+            const altered = bytes.slice();
+            altered[index] = value;
+            return toBase64Url(altered);
+        };
+
+        expect(() => readEncryptionMeta(`${encrypted}A`)).toThrow(MalformedEnvelopeError);
+        expect(() => readEncryptionMeta(withByte(0, 3))).toThrow(UnsupportedVersionError);
+        expect(() => readEncryptionMeta(withByte(1, 200))).toThrow(UnsupportedAlgorithmError);
+        // unknown flag bits
+        expect(() => readEncryptionMeta(withByte(2, 0x80))).toThrow(MalformedEnvelopeError);
+        // empty key id
+        expect(() => readEncryptionMeta(withByte(3, 0))).toThrow(MalformedEnvelopeError);
+
+        const v1 = await encryptV1(key, 'legacy');
+        const [metaText, cipherText] = v1.split('.');
+        const meta = JSON.parse(atob(metaText!));
+        expect(() => readEncryptionMeta(`${v1}.extra`)).toThrow(MalformedEnvelopeError);
+        expect(() => readEncryptionMeta(`${btoa(JSON.stringify({ ...meta, x: 1 }))}.${cipherText}`)).toThrow(
+            MalformedEnvelopeError,
+        );
+        expect(() => readEncryptionMeta(`${btoa(JSON.stringify({ ...meta, a: 'ROT13' }))}.${cipherText}`)).toThrow(
+            UnsupportedAlgorithmError,
+        );
+        expect(() => readEncryptionMeta(`${metaText}.${cipherText!.replace(/=*$/, '')}`)).toThrow(
+            MalformedEnvelopeError,
+        );
+    });
+
+    it('tells missing keys from tampered data', async () => {
+        const key = randomKey();
+        const encrypted = await new Encrypter(key).encrypt('secret');
+        const bytes = fromBase64Url(encrypted);
+        bytes[bytes.length - 1]! ^= 1;
+
+        const unknown = await new Decrypter([randomKey()]).decrypt(encrypted).catch((e: unknown) => e);
+        expect(unknown).toBeInstanceOf(UnknownKeyError);
+        expect((unknown as UnknownKeyError).keyId).toBe(await getKeyDigest(key));
+
+        const tampered = await new Decrypter([key]).decrypt(toBase64Url(bytes)).catch((e: unknown) => e);
+        expect(tampered).toBeInstanceOf(AuthenticationFailedError);
+        expect((tampered as AuthenticationFailedError).keyId).toBe(await getKeyDigest(key));
+
+        const envelope = (keys: Record<string, string>) =>
+            new EnvelopeCipher(new LocalKeyProvider(keys, Object.keys(keys)[0]!));
+        const wrapped = await envelope({ k1: 'kek-one' }).encrypt('secret');
+        await expect(envelope({ k2: 'kek-two' }).decrypt(wrapped)).rejects.toThrow(UnknownKeyError);
+        await expect(envelope({ k1: 'other' }).decrypt(wrapped)).rejects.toThrow(AuthenticationFailedError);
+    });
+});
+
+describe('Algorithms', () => {
+    const hex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+    const fromHex = (text: string) => Uint8Array.from(text.match(/../g)!, (b) => parseInt(b, 16));
+
+    it.each(['AES-GCM', 'ChaCha20-Poly1305', 'XChaCha20-Poly1305', 'AES-CBC-HMAC-SHA256'])(
+        'roundtrips with %s',
+        async (algorithm) => {
+            const key = randomKey();
+            const encrypted = await new Encrypter(key).encrypt('secret', { algorithm });
+
+            expect(readEncryptionMeta(encrypted).a).toBe(algorithm);
+            expect(await new Decrypter([key]).decrypt(encrypted)).toBe('secret');
+        },
+    );
+
+    it('computes HChaCha20 subkeys', () => {
+        const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+        const subkey = hchacha20(key, fromHex('000000090000004a0000000031415927'));
+        expect(hex(subkey)).toBe('82413b4227b27bfed30e42508a877d73a0f9e4d58a74a853c12ec41326d3ecdc');
+    });
+
+    it('matches reference XChaCha20-Poly1305 and ChaCha20-Poly1305 output', async () => {
+        const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+        const nonce = Uint8Array.from({ length: 24 }, (_, i) => 0x40 + i);
+        const plain = new TextEncoder().encode('secret message');
+        const aad = new TextEncoder().encode('aad');
+
+        const xchacha = await getAlgorithm('XChaCha20-Poly1305').encrypt(key, nonce, plain, aad);
+        expect(hex(xchacha)).toBe('a75c6602b594597bea87f4dfc8f97b12e6f2de70b46c43833bb3db0327b9');
+        const chacha = await getAlgorithm('ChaCha20-Poly1305').encrypt(key, nonce.slice(0, 12), plain, aad);
+        expect(hex(chacha)).toBe('8b311ff3173ece6c3dbc8561dc8a6b0f6d52eef33b7afb9bc4c0fe959ca6');
+    });
+
+    it.each(['ChaCha20-Poly1305', 'AES-CBC-HMAC-SHA256'])('detects tampering with %s', async (algorithm) => {
+        const cipher = getAlgorithm(algorithm);
+        const key = randomKey();
+        const iv = crypto.getRandomValues(new Uint8Array(cipher.ivBytes));
+        const encrypted = await cipher.encrypt(key, iv, new TextEncoder().encode('secret'));
+
+        encrypted[0]! ^= 1;
+        await expect(cipher.decrypt(key, iv, encrypted)).rejects.toThrow();
+    });
+
+    it('rejects unknown algorithms', async () => {
+        expect(() => getAlgorithm('ROT13')).toThrow('Unknown encryption algorithm "ROT13"');
+        await expect(new Encrypter(randomKey()).encrypt('secret', { algorithm: 'ROT13' })).rejects.toThrow(
+            'Unknown encryption algorithm',
+        );
+    });
+
+    it('only encrypts deterministically with AES-GCM', async () => {
+        await expect(
+            new Encrypter(randomKey()).encrypt('secret', { algorithm: 'ChaCha20-Poly1305', deterministic: true }),
+        ).rejects.toThrow('Deterministic encryption is only supported with AES-GCM');
+    });
+
+    it('registers custom algorithms', async () => {
+        const custom: CipherAlgorithm = { ...getAlgorithm('AES-GCM'), name: 'Test-AES-GCM', id: 200 };
+        registerAlgorithm(custom);
+        expect(() => registerAlgorithm(custom)).toThrow('already registered');
+        expect(() => registerAlgorithm({ ...custom, name: 'Other' })).toThrow('already used');
+
+        const key = randomKey();
+        const encrypted = await new Encrypter(key).encrypt('secret', { algorithm: 'Test-AES-GCM' });
+        expect(readEncryptionMeta(encrypted).a).toBe('Test-AES-GCM');
+        expect(await new Decrypter([key]).decrypt(encrypted)).toBe('secret');
+    });
+});
+
+describe('Key derivation', () => {
+    it('derives string keys with SHA-256 by default', async () => {
+        const sha256 = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode('secret')));
+        expect(await deriveKey('secret')).toEqual(sha256);
+        expect(await deriveKey('secret', { algorithm: 'sha256' })).toEqual(sha256);
+    });
+
+    it('derives distinct, repeatable keys with each KDF', async () => {
+        const salt = 'per-app-salt';
+        const kdfs: KeyDerivation[] = [
+            { algorithm: 'sha256' },
+            { algorithm: 'hkdf', salt, info: 'app' },
+            { algorithm: 'pbkdf2', salt, iterations: 1000 },
+            { algorithm: 'scrypt', salt, cost: 1024 },
+        ];
+        const keys = await Promise.all(kdfs.map((kdf) => deriveKey('secret', kdf)));
+
+        expect(new Set(keys.map(toBase64)).size).toBe(kdfs.length);
+        keys.forEach((key) => expect(key.length).toBe(ENCRYPTION_KEY_BYTES));
+        expect(await deriveKey('secret', kdfs[3])).toEqual(keys[3]);
+    });
+
+    it('rejects short salts and invalid parameters', async () => {
+        await expect(deriveKey('secret', { algorithm: 'pbkdf2', salt: 'short' })).rejects.toThrow(
+            'salt must be at least 8 bytes',
+        );
+        await expect(deriveKey('secret', { algorithm: 'scrypt', salt: 'per-app-salt', cost: 1000 })).rejects.toThrow(
+            'power of two',
+        );
+        await expect(deriveKey('secret', { algorithm: 'bcrypt' } as never)).rejects.toThrow(
+            'Unknown key derivation algorithm "bcrypt"',
+        );
+    });
+
+    it('encrypts with subkeys recorded in the envelope', async () => {
+        const key = randomKey();
+        const encrypter = new Encrypter(key);
+        const ssn = await encrypter.encrypt('secret', { subkey: 'User.ssn', deterministic: true });
+
+        expect(readEncryptionMeta(ssn)).toMatchObject({ k: await getKeyDigest(key), s: 'User.ssn' });
+        expect(await new Decrypter([key]).decrypt(ssn)).toBe('secret');
+        // each subkey encrypts differently
+        expect(await encrypter.encrypt('secret', { subkey: 'User.phone', deterministic: true })).not.toBe(ssn);
+        expect(await encrypter.encrypt('secret', { subkey: 'User.ssn', deterministic: true })).toBe(ssn);
+    });
+});
+
+describe('Deterministic encryption', () => {
+    it('produces the same ciphertext for the same plaintext and key', async () => {
+        const key = randomKey();
+        const encrypter = new Encrypter(key);
+
+        const a = await encrypter.encrypt('123-45-6789', { deterministic: true });
+        const b = await encrypter.encrypt('123-45-6789', { deterministic: true });
+        expect(a).toBe(b);
+        expect(await encrypter.encrypt('123-45-6780', { deterministic: true })).not.toBe(a);
+        expect(await new Encrypter(randomKey()).encrypt('123-45-6789', { deterministic: true })).not.toBe(a);
+    });
+
+    it("doesn't link equal values across fields", async () => {
+        const encrypter = new Encrypter(randomKey());
+        const ssn = await encrypter.encrypt('123-45-6789', { deterministic: true, field: 'User.ssn' });
+
+        expect(await encrypter.encrypt('123-45-6789', { deterministic: true, field: 'User.ssn' })).toBe(ssn);
+        expect(await encrypter.encrypt('123-45-6789', { deterministic: true, field: 'User.taxId' })).not.toBe(ssn);
+    });
+
+    it('records the algorithm in the envelope and decrypts', async () => {
+        const key = randomKey();
+        const encrypted = await new Encrypter(key).encrypt('123-45-6789', { deterministic: true });
+
+        expect(readEncryptionMeta(encrypted).a).toBe(DETERMINISTIC_ALGORITHM);
+        expect(await new Decrypter([key]).decrypt(encrypted)).toBe('123-45-6789');
+    });
+});
+
+describe('Associated data', () => {
+    const encoder = new TextEncoder();
+    const bind = (text: string) => ({ scheme: 'row', data: encoder.encode(text) });
+
+    it('requires the same associated data to decrypt', async () => {
+        const key = randomKey();
+        const encrypted = await new Encrypter(key).encrypt('bound', { associatedData: bind('User.ssn#1') });
+        const decrypter = new Decrypter([key]);
+
+        expect(readEncryptionMeta(encrypted).d).toBe('row');
+        expect(await decrypter.decrypt(encrypted, () => encoder.encode('User.ssn#1'))).toBe('bound');
+        await expect(decrypter.decrypt(encrypted, () => encoder.encode('User.ssn#2'))).rejects.toThrow();
+        await expect(decrypter.decrypt(encrypted)).rejects.toThrow('Missing associated data for binding "row"');
+    });
+
+    it('fails when the binding is stripped from the metadata', async () => {
+        const key = randomKey();
+        const encrypted = await new Encrypter(key).encrypt('bound', { associatedData: bind('User.ssn#1') });
+        // header: version, algorithm, flags, key id, binding scheme ('row')
+        const bytes = fromBase64Url(encrypted);
+        const keyIdEnd = 4 + bytes[3]!;
+        const stripped = new Uint8Array([
+            ...bytes.subarray(0, 2),
+            bytes[2]! & ~4,
+            ...bytes.subarray(3, keyIdEnd),
+            ...bytes.subarray(keyIdEnd + 1 + 'row'.length),
+        ]);
+
+        expect(readEncryptionMeta(toBase64Url(stripped)).d).toBeUndefined();
+        await expect(new Decrypter([key]).decrypt(toBase64Url(stripped))).rejects.toThrow();
+    });
+
+    it('keeps deterministic ciphertexts equal only within the same binding', async () => {
+        const encrypter = new Encrypter(randomKey());
+        const a = await encrypter.encrypt('same', { deterministic: true, associatedData: bind('User.a') });
+        const b = await encrypter.encrypt('same', { deterministic: true, associatedData: bind('User.a') });
+        const c = await encrypter.encrypt('same', { deterministic: true, associatedData: bind('User.b') });
+        expect(a).toBe(b);
+        expect(a).not.toBe(c);
+    });
+});
+
 describe('Key rotation', () => {
     it('decrypts old ciphertext after key rotation', async () => {
         const oldKey = randomKey();
@@ -73,6 +394,16 @@ describe('Key rotation', () => {
         const decrypted = await new Decrypter([newKey, oldKey]).decrypt(encrypted);
         expect(decrypted).toBe('rotated data');
     });
+
+    it('decrypts with keys added after construction', async () => {
+        const tenantKey = randomKey();
+        const decrypter = new Decrypter([randomKey()]);
+        const encrypted = await new Encrypter(tenantKey).encrypt('tenant data');
+
+        await expect(decrypter.decrypt(encrypted)).rejects.toThrow();
+        await decrypter.addKey(tenantKey);
+        expect(await decrypter.decrypt(encrypted)).toBe('tenant data');
+    });
 });
 
 describe('isCustomEncryption', () => {
@@ -81,3 +412,143 @@ describe('isCustomEncryption', () => {
         expect(isCustomEncryption({ key: randomKey() })).toBe(false);
     });
 });
+
+describe('BlindIndexer', () => {
+    it('produces stable indexes scoped to model and field', async () => {
+        const indexer = new BlindIndexer(randomKey());
+
+        const a = await indexer.compute('User', 'email', 'alice@example.com');
+        expect(await indexer.compute('User', 'email', 'alice@example.com')).toBe(a);
+        expect(await indexer.compute('User', 'backupEmail', 'alice@example.com')).not.toBe(a);
+        expect(await new BlindIndexer(randomKey()).compute('User', 'email', 'alice@example.com')).not.toBe(a);
+    });
+});
+
+describe('Value serialization', () => {
+    it('roundtrips typed values through their type tag', () => {
+        const values = [
+            42,
+            -0.25,
+            12345678901234567890n,
+            true,
+            new Date('2000-01-01T12:00:00.000Z'),
+            new Decimal('0.1'),
+            new Uint8Array([1, 2, 3]),
+            { a: [1, 'b', null] },
+        ];
+
+        for (const value of values) {
+            const { plain, type } = serializeValue(value, 'Json');
+            expect(type).toBeDefined();
+            expect(deserializeValue(plain, type)).toEqual(value);
+        }
+    });
+
+    it('leaves strings untagged except in Json fields', () => {
+        expect(serializeValue('hello', 'String')).toEqual({ plain: 'hello' });
+        expect(serializeValue('hello', 'Json')).toEqual({ plain: '"hello"', type: 'Json' });
+    });
+
+    it('records the type tag in the envelope', async () => {
+        const encrypted = await new Encrypter(randomKey()).encrypt('42', { type: 'Int' });
+        expect(readEncryptionMeta(encrypted).t).toBe('Int');
+    });
+});
+
+describe('LocalKeyProvider', () => {
+    it('wraps and unwraps data keys with the current key', async () => {
+        const provider = new LocalKeyProvider({ old: randomKey(), current: 'current-secret' }, 'current');
+        const dataKey = randomKey();
+
+        const wrapped = await provider.wrapKey(dataKey);
+        expect(wrapped.keyId).toBe('current');
+        expect(await provider.unwrapKey(wrapped)).toEqual(dataKey);
+    });
+
+    it('loads a keyring from JSON', async () => {
+        const kek = randomKey();
+        const json = JSON.stringify({ currentKeyId: 'k1', keys: { k1: toBase64(kek) } });
+        const wrapped = await LocalKeyProvider.fromJSON(json).wrapKey(randomKey());
+        expect(await new LocalKeyProvider({ k1: kek }, 'k1').unwrapKey(wrapped)).toHaveLength(ENCRYPTION_KEY_BYTES);
+    });
+
+    it('rejects unknown key ids', async () => {
+        expect(() => new LocalKeyProvider({ a: randomKey() }, 'b')).toThrow('is not in the keyring');
+        const provider = new LocalKeyProvider({ a: randomKey() }, 'a');
+        await expect(provider.unwrapKey({ keyId: 'b', data: '' })).rejects.toThrow('Unknown key encryption key "b"');
+    });
+});
+
+describe('Envelope encryption', () => {
+    function countingProvider(): KeyProvider & { wraps: number; unwraps: number } {
+        const inner = new LocalKeyProvider({ kek: randomKey() }, 'kek');
+        return {
+            wraps: 0,
+            unwraps: 0,
+            async wrapKey(dataKey) {
+                this.wraps++;
+                return inner.wrapKey(dataKey);
+            },
+            async unwrapKey(wrapped) {
+                this.unwraps++;
+                return inner.unwrapKey(wrapped);
+            },
+        };
+    }
+
+    it('stores the wrapped data key in the envelope', async () => {
+        const cipher = new EnvelopeCipher(countingProvider());
+
+        const encrypted = await cipher.encrypt('secret message');
+        const meta = readEncryptionMeta(encrypted);
+        expect(meta.k).toBe('kek');
+        expect(meta.w).toBeDefined();
+        expect(await cipher.decrypt(encrypted)).toBe('secret message');
+    });
+
+    it('generates a data key per record unless scoped', async () => {
+        const provider = countingProvider();
+        const cipher = new EnvelopeCipher(provider);
+
+        const a = readEncryptionMeta(await cipher.encrypt('a')).w;
+        const b = readEncryptionMeta(await cipher.encrypt('b')).w;
+        expect(a).not.toBe(b);
+
+        const c = readEncryptionMeta(await cipher.encrypt('c', { scope: 'tenant-1' })).w;
+        const d = readEncryptionMeta(await cipher.encrypt('d', { scope: 'tenant-1' })).w;
+        const e = readEncryptionMeta(await cipher.encrypt('e', { scope: 'tenant-2' })).w;
+        expect(c).toBe(d);
+        expect(e).not.toBe(c);
+        expect(provider.wraps).toBe(4);
+    });
+
+    it('caches unwrapped data keys until they expire', async () => {
+        vi.useFakeTimers();
+        try {
+            const provider = countingProvider();
+            const cipher = new EnvelopeCipher(provider, { ttl: 1000 });
+            const encrypted = await cipher.encrypt('cached');
+
+            await cipher.decrypt(encrypted);
+            await cipher.decrypt(encrypted);
+            expect(provider.unwraps).toBe(1);
+
+            vi.advanceTimersByTime(1001);
+            await cipher.decrypt(encrypted);
+            expect(provider.unwraps).toBe(2);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('decrypts legacy data encrypted directly with a key', async () => {
+        const legacyKey = randomKey();
+        const encrypted = await new Encrypter(legacyKey).encrypt('legacy');
+
+        const cipher = new EnvelopeCipher(countingProvider(), { legacyDecrypter: new Decrypter([legacyKey]) });
+        expect(await cipher.decrypt(encrypted)).toBe('legacy');
+        await expect(new EnvelopeCipher(countingProvider()).decrypt(encrypted)).rejects.toThrow(
+            'no wrapped data key',
+        );
+    });
+});
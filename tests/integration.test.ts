@@ -0,0 +1,217 @@
+import { ZenStackClient } from '@zenstackhq/orm';
+import { SqliteDialect } from '@zenstackhq/orm/dialects/sqlite';
+import type { AttributeApplication, SchemaDef } from '@zenstackhq/orm/schema';
+import Database from 'better-sqlite3';
+import Decimal from 'decimal.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MemoryAuditSink } from '../src/audit.js';
+import { encryptExisting } from '../src/migrate.js';
+import { encryption, PLUGIN_ID } from '../src/plugin.js';
+import { reencrypt } from '../src/reencrypt.js';
+import { isEncryptedData } from '../src/utils.js';
+
+const encrypted = (args: Record<string, boolean | string> = {}): AttributeApplication => ({
+    name: '@encrypted',
+    args: Object.entries(args).map(([name, value]) => ({ name, value: { kind: 'literal', value } })),
+});
+const id = { name: 'id', type: 'String', id: true, default: { kind: 'call', function: 'cuid' } } as const;
+
+const schema = {
+    provider: { type: 'sqlite' },
+    plugins: {},
+    models: {
+        User: {
+            name: 'User',
+            idFields: ['id'],
+            uniqueFields: { id: { type: 'String' }, emailBlindIndex: { type: 'String' }, ssn: { type: 'String' } },
+            fields: {
+                id,
+                email: { name: 'email', type: 'String', attributes: [encrypted({ searchable: true })] },
+                emailBlindIndex: { name: 'emailBlindIndex', type: 'String', optional: true, unique: true },
+                ssn: { name: 'ssn', type: 'String', unique: true, attributes: [encrypted({ deterministic: true })] },
+                notes: { name: 'notes', type: 'String', optional: true, attributes: [encrypted()] },
+                age: { name: 'age', type: 'Int', optional: true, attributes: [encrypted({ storage: 'ageEncrypted' })] },
+                ageEncrypted: { name: 'ageEncrypted', type: 'String', optional: true },
+                birthDate: {
+                    name: 'birthDate',
+                    type: 'DateTime',
+                    optional: true,
+                    attributes: [encrypted({ storage: 'birthDateEncrypted' })],
+                },
+                birthDateEncrypted: { name: 'birthDateEncrypted', type: 'Bytes', optional: true },
+                salary: {
+                    name: 'salary',
+                    type: 'Decimal',
+                    optional: true,
+                    attributes: [encrypted({ storage: 'salaryEncrypted' })],
+                },
+                salaryEncrypted: { name: 'salaryEncrypted', type: 'String', optional: true },
+            },
+        },
+        Asset: {
+            name: 'Asset',
+            idFields: ['id'],
+            uniqueFields: { id: { type: 'String' } },
+            isDelegate: true,
+            subModels: ['Video'],
+            attributes: [
+                { name: '@@delegate', args: [{ name: 'discriminator', value: { kind: 'field', field: 'assetType' } }] },
+            ],
+            fields: {
+                id,
+                code: { name: 'code', type: 'String', attributes: [encrypted({ deterministic: true })] },
+                assetType: { name: 'assetType', type: 'String', isDiscriminator: true },
+            },
+        },
+        Video: {
+            name: 'Video',
+            baseModel: 'Asset',
+            idFields: ['id'],
+            uniqueFields: { id: { type: 'String' } },
+            fields: {
+                id: { ...id, originModel: 'Asset' },
+                code: {
+                    name: 'code',
+                    type: 'String',
+                    originModel: 'Asset',
+                    attributes: [encrypted({ deterministic: true })],
+                },
+                assetType: { name: 'assetType', type: 'String', originModel: 'Asset', isDiscriminator: true },
+                title: { name: 'title', type: 'String' },
+            },
+        },
+    },
+} as const satisfies SchemaDef;
+
+describe('SQLite integration', () => {
+    let database: Database.Database;
+
+    function createClient(plugin: ReturnType<typeof encryption>) {
+        return new ZenStackClient(schema, { dialect: new SqliteDialect({ database }) }).$use(plugin);
+    }
+
+    beforeEach(async () => {
+        database = new Database(':memory:');
+        await new ZenStackClient(schema, { dialect: new SqliteDialect({ database }) }).$pushSchema();
+    });
+
+    afterEach(() => {
+        database.close();
+    });
+
+    it('round-trips searchable and deterministic fields through the database', async () => {
+        const client = createClient(encryption({ key: 'test-secret' }));
+        const created = await client.user.create({
+            data: { email: 'alice@example.com', ssn: '123-45-6789', notes: 'private' },
+        });
+        expect(created).toMatchObject({ email: 'alice@example.com', ssn: '123-45-6789', notes: 'private' });
+
+        // stored encrypted, as read without the plugin
+        const stored = await client.$unuse(PLUGIN_ID).user.findUniqueOrThrow({ where: { id: created.id } });
+        expect(isEncryptedData(stored.email)).toBe(true);
+        expect(isEncryptedData(stored.ssn)).toBe(true);
+        expect(stored.emailBlindIndex).toMatch(/^[0-9a-f]{64}$/);
+
+        // filters on plaintext are rewritten to match the stored values
+        const byEmail = await client.user.findFirstOrThrow({ where: { email: 'alice@example.com' } });
+        expect(byEmail).toMatchObject({ id: created.id, notes: 'private' });
+        const bySsn = await client.user.findUniqueOrThrow({ where: { ssn: '123-45-6789' } });
+        expect(bySsn).toMatchObject({ id: created.id, email: 'alice@example.com' });
+        await expect(client.user.findUniqueOrThrow({ where: { ssn: '000-00-0000' } })).rejects.toThrow();
+
+        const updated = await client.user.update({ where: { ssn: '123-45-6789' }, data: { notes: 'changed' } });
+        expect(updated.notes).toBe('changed');
+        expect(await client.user.count({ where: { email: { in: ['alice@example.com', 'bob@example.com'] } } })).toBe(1);
+    });
+
+    it('round-trips Int, DateTime and Decimal fields through their storage fields', async () => {
+        const client = createClient(encryption({ key: 'test-secret' }));
+        const birthDate = new Date('1990-05-17T00:00:00.000Z');
+        const created = await client.user.create({
+            data: { email: 'alice@example.com', ssn: '1', age: 34, birthDate, salary: new Decimal('85000.50') },
+        });
+        expect(created).toMatchObject({ age: 34, birthDate });
+        expect(created.salary).toEqual(new Decimal('85000.50'));
+
+        const stored = await client.$unuse(PLUGIN_ID).user.findUniqueOrThrow({ where: { id: created.id } });
+        expect(stored).toMatchObject({ age: null, birthDate: null, salary: null });
+        expect(isEncryptedData(stored.ageEncrypted!)).toBe(true);
+        expect(isEncryptedData(stored.salaryEncrypted!)).toBe(true);
+        expect(stored.birthDateEncrypted).toBeInstanceOf(Uint8Array);
+
+        const read = await client.user.findUniqueOrThrow({
+            where: { id: created.id },
+            select: { age: true, birthDate: true, salary: true },
+        });
+        expect(read).toEqual({ age: 34, birthDate, salary: new Decimal('85000.50') });
+        expect(read.birthDate).toBeInstanceOf(Date);
+        expect(read.salary).toBeInstanceOf(Decimal);
+
+        await client.user.update({ where: { id: created.id }, data: { age: null, salary: new Decimal('90000') } });
+        const updated = await client.user.findUniqueOrThrow({ where: { id: created.id } });
+        expect(updated).toMatchObject({ age: null, birthDate });
+        expect(updated.salary).toEqual(new Decimal('90000'));
+        expect(await client.user.count({ where: { age: null, salary: { not: null } } })).toBe(1);
+    });
+
+    it('moves plaintext values of fields with a storage field into it', async () => {
+        const client = createClient(encryption({ key: 'test-secret' }));
+        const raw = client.$unuse(PLUGIN_ID);
+        const { id } = await raw.user.create({ data: { email: 'e', ssn: '1', age: 41 } });
+        const newer = await client.user.create({ data: { email: 'f', ssn: '2', age: 20 } });
+        // written before the field was encrypted, and overwritten since
+        await raw.user.update({ where: { id: newer.id }, data: { age: 19 } });
+
+        expect(await encryptExisting(client, 'User', 'age')).toEqual({ scanned: 2, encrypted: 1 });
+        expect(await raw.user.findMany({ select: { age: true } })).toEqual([{ age: null }, { age: null }]);
+        expect(await client.user.findUniqueOrThrow({ where: { id } })).toMatchObject({ age: 41 });
+        expect(await client.user.findUniqueOrThrow({ where: { id: newer.id } })).toMatchObject({ age: 20 });
+    });
+
+    it('reports the ids the database generated to onEncrypt', async () => {
+        const sink = new MemoryAuditSink();
+        const client = createClient(encryption({ key: 'test-secret', onEncrypt: sink.record }));
+        await client.user.createMany({
+            data: [
+                { email: 'alice@example.com', ssn: '1' },
+                { email: 'bob@example.com', ssn: '2' },
+            ],
+        });
+
+        const users = await client.user.findMany({ select: { id: true } });
+        const ids = sink.events[0]!.values.map((value) => value.id);
+        expect(ids).toHaveLength(4);
+        expect(new Set(ids.map((value) => value?.['id']))).toEqual(new Set(users.map((user) => user.id)));
+    });
+
+    it('filters sub-models of a delegate model by inherited deterministic fields', async () => {
+        const client = createClient(encryption({ key: 'test-secret', perFieldKeys: true }));
+        const video = await client.video.create({ data: { code: 'v-1', title: 'Intro' } });
+
+        const asset = await client.asset.findFirstOrThrow({ where: { code: 'v-1' } });
+        expect(asset).toMatchObject({ id: video.id, code: 'v-1', assetType: 'Video' });
+        expect(await client.video.findFirst({ where: { code: 'v-1' } })).toMatchObject({ title: 'Intro' });
+    });
+
+    it('re-encrypts values under a rotated key', async () => {
+        const before = createClient(encryption({ key: 'old-secret', blindIndexKey: 'index-secret' }));
+        await before.user.create({ data: { email: 'alice@example.com', ssn: '123-45-6789', age: 34 } });
+
+        // found through the plugin in the client's options
+        const client = createClient(
+            encryption({ key: 'new-secret', previousKeys: ['old-secret'], blindIndexKey: 'index-secret' }),
+        );
+        const result = await reencrypt(client);
+        expect(result).toMatchObject({ scanned: 1, reencrypted: 1, failed: 0 });
+
+        // deterministic filters only match values under the current key
+        expect(await client.user.findUnique({ where: { ssn: '123-45-6789' } })).toMatchObject({
+            email: 'alice@example.com',
+            age: 34,
+        });
+        expect(await client.user.findFirst({ where: { email: 'alice@example.com' } })).not.toBeNull();
+        // including those in storage fields, readable without the previous key
+        const current = createClient(encryption({ key: 'new-secret', blindIndexKey: 'index-secret' }));
+        expect(await current.user.findFirst({ select: { age: true } })).toEqual({ age: 34 });
+    });
+});
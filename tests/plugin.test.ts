@@ -0,0 +1,1594 @@
+import type { SchemaDef } from '@zenstackhq/orm/schema';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { Encrypter } from '../src/encrypter.js';
+import { DbNull } from '@zenstackhq/orm';
+import Decimal from 'decimal.js';
+import { LocalKeyProvider } from '../src/key-provider.js';
+import { MemoryAuditSink } from '../src/audit.js';
+import { EncryptedValue, revealAll } from '../src/encrypted-value.js';
+import { DecryptionError, UnsupportedEncryptedFilterError } from '../src/errors.js';
+import { encryption } from '../src/plugin.js';
+import { getEncryptionReachableModels } from '../src/schema.js';
+import type { KeySet } from '../src/types.js';
+import { deriveKey, ENCRYPTER_VERSION, getKeyDigest, readEncryptionMeta } from '../src/utils.js';
+
+const authMember = (member: string) => ({
+    kind: 'member',
+    receiver: { kind: 'call', function: 'auth' },
+    members: [member],
+});
+
+// @encrypted on a field whose column can't hold the encrypted value, stored in another field
+const storedIn = (storage: string) => ({
+    name: '@encrypted',
+    args: [{ name: 'storage', value: { kind: 'literal', value: storage } }],
+});
+
+const schema = {
+    provider: { type: 'sqlite' },
+    plugins: {},
+    models: {
+        User: {
+            name: 'User',
+            idFields: ['id'],
+            uniqueFields: { id: { type: 'String' }, emailBlindIndex: { type: 'String' } },
+            fields: {
+                id: { name: 'id', type: 'String', id: true },
+                email: {
+                    name: 'email',
+                    type: 'String',
+                    attributes: [
+                        {
+                            name: '@encrypted',
+                            args: [{ name: 'searchable', value: { kind: 'literal', value: true } }],
+                        },
+                    ],
+                },
+                emailBlindIndex: { name: 'emailBlindIndex', type: 'String', optional: true, unique: true },
+                secret: { name: 'secret', type: 'String', attributes: [{ name: '@encrypted' }] },
+                nationalId: {
+                    name: 'nationalId',
+                    type: 'String',
+                    optional: true,
+                    unique: true,
+                    attributes: [
+                        {
+                            name: '@encrypted',
+                            args: [{ name: 'deterministic', value: { kind: 'literal', value: true } }],
+                        },
+                    ],
+                },
+                record: { name: 'record', type: 'Json', optional: true, attributes: [{ name: '@encrypted' }] },
+                attachment: { name: 'attachment', type: 'Bytes', optional: true, attributes: [{ name: '@encrypted' }] },
+                notes: {
+                    name: 'notes',
+                    type: 'String',
+                    optional: true,
+                    attributes: [
+                        {
+                            name: '@encrypted',
+                            args: [{ name: 'algorithm', value: { kind: 'literal', value: 'XChaCha20-Poly1305' } }],
+                        },
+                    ],
+                },
+                ssn: {
+                    name: 'ssn',
+                    type: 'String',
+                    optional: true,
+                    attributes: [
+                        {
+                            name: '@encrypted',
+                            args: [
+                                {
+                                    // auth().role == 'ADMIN' || auth().id == id
+                                    name: 'decryptFor',
+                                    value: {
+                                        kind: 'binary',
+                                        op: '||',
+                                        left: {
+                                            kind: 'binary',
+                                            op: '==',
+                                            left: authMember('role'),
+                                            right: { kind: 'literal', value: 'ADMIN' },
+                                        },
+                                        right: {
+                                            kind: 'binary',
+                                            op: '==',
+                                            left: authMember('id'),
+                                            right: { kind: 'field', field: 'id' },
+                                        },
+                                    },
+                                },
+                                { name: 'mask', value: { kind: 'literal', value: '***-**-{last4}' } },
+                            ],
+                        },
+                    ],
+                },
+                age: { name: 'age', type: 'Int', optional: true, attributes: [storedIn('ageEncrypted')] },
+                ageEncrypted: { name: 'ageEncrypted', type: 'String', optional: true },
+                birthDate: {
+                    name: 'birthDate',
+                    type: 'DateTime',
+                    optional: true,
+                    attributes: [storedIn('birthDateEncrypted')],
+                },
+                birthDateEncrypted: { name: 'birthDateEncrypted', type: 'Bytes', optional: true },
+                salary: { name: 'salary', type: 'Decimal', optional: true, attributes: [storedIn('salaryEncrypted')] },
+                salaryEncrypted: { name: 'salaryEncrypted', type: 'String', optional: true },
+                createdAt: { name: 'createdAt', type: 'DateTime', optional: true },
+                visits: { name: 'visits', type: 'BigInt', optional: true },
+                balance: { name: 'balance', type: 'Decimal', optional: true },
+                avatar: { name: 'avatar', type: 'Bytes', optional: true },
+                settings: { name: 'settings', type: 'Json', optional: true },
+                tags: { name: 'tags', type: 'String', array: true, optional: true },
+                address: { name: 'address', type: 'Address', optional: true },
+                accounts: { name: 'accounts', type: 'BankAccount', array: true, optional: true },
+                posts: { name: 'posts', type: 'Post', array: true, relation: { opposite: 'author' } },
+            },
+        },
+        Post: {
+            name: 'Post',
+            idFields: ['id'],
+            uniqueFields: { id: { type: 'String' } },
+            fields: {
+                id: { name: 'id', type: 'String', id: true },
+                title: { name: 'title', type: 'String' },
+                author: {
+                    name: 'author',
+                    type: 'User',
+                    relation: { opposite: 'posts', fields: ['authorId'], references: ['id'] },
+                },
+                authorId: { name: 'authorId', type: 'String', foreignKeyFor: ['author'] },
+            },
+        },
+        Tag: {
+            name: 'Tag',
+            idFields: ['id'],
+            uniqueFields: { id: { type: 'String' } },
+            fields: {
+                id: { name: 'id', type: 'String', id: true },
+                label: { name: 'label', type: 'String' },
+            },
+        },
+    },
+    typeDefs: {
+        Address: {
+            name: 'Address',
+            fields: {
+                street: { name: 'street', type: 'String', attributes: [{ name: '@encrypted' }] },
+                city: { name: 'city', type: 'String' },
+            },
+        },
+        BankAccount: {
+            name: 'BankAccount',
+            fields: {
+                iban: { name: 'iban', type: 'String', attributes: [{ name: '@encrypted' }] },
+                holder: { name: 'holder', type: 'Holder', optional: true },
+            },
+        },
+        Holder: {
+            name: 'Holder',
+            fields: {
+                name: { name: 'name', type: 'String' },
+                taxId: { name: 'taxId', type: 'String', optional: true, attributes: [{ name: '@encrypted' }] },
+            },
+        },
+    },
+} as unknown as SchemaDef;
+
+type Args = Record<string, unknown> | undefined;
+
+// the client without the plugin, for lookups the plugin makes itself; it finds no rows
+const emptyClient = new Proxy({}, { get: () => ({ findMany: async () => [] }) });
+
+/**
+ * Run a query through the plugin's onQuery hook, capturing the args passed on
+ */
+async function runQuery(
+    plugin: ReturnType<typeof encryption>,
+    model: string,
+    operation: string,
+    args: Args,
+    result: unknown = null,
+    auth?: unknown,
+) {
+    let proceededArgs: Args;
+    const output = await plugin.onQuery!({
+        model,
+        operation,
+        args,
+        proceed: async (next: Args) => {
+            proceededArgs = next;
+            return result;
+        },
+        client: { schema, $auth: auth, $unuse: () => emptyClient },
+    } as never);
+    return { args: proceededArgs, output };
+}
+
+describe('Searchable fields', () => {
+    const plugin = encryption({ key: 'test-secret' });
+
+    it('stores a blind index alongside the ciphertext', async () => {
+        const { args } = await runQuery(plugin, 'User', 'create', {
+            data: { id: '1', email: 'alice@example.com', secret: 's' },
+        });
+        const data = args!['data'] as Record<string, string>;
+
+        expect(data['email']).not.toBe('alice@example.com');
+        expect(data['emailBlindIndex']).toMatch(/^[0-9a-f]{64}$/);
+
+        const { args: again } = await runQuery(plugin, 'User', 'create', {
+            data: { id: '2', email: 'alice@example.com', secret: 's' },
+        });
+        expect((again!['data'] as Record<string, string>)['emailBlindIndex']).toBe(data['emailBlindIndex']);
+    });
+
+    it('clears the blind index when the field is cleared', async () => {
+        const { args } = await runQuery(plugin, 'User', 'update', { where: { id: '1' }, data: { email: null } });
+        expect(args!['data']).toEqual({ email: null, emailBlindIndex: null });
+    });
+
+    it('rewrites equality, in and not filters to the blind index', async () => {
+        const { args: created } = await runQuery(plugin, 'User', 'create', {
+            data: { id: '1', email: 'alice@example.com', secret: 's' },
+        });
+        const index = (created!['data'] as Record<string, string>)['emailBlindIndex'];
+
+        const { args } = await runQuery(plugin, 'User', 'findMany', {
+            where: {
+                OR: [{ email: 'alice@example.com' }, { email: { in: ['alice@example.com'] } }],
+                NOT: { email: { not: 'alice@example.com' } },
+            },
+        });
+        expect(args!['where']).toEqual({
+            OR: [{ emailBlindIndex: index }, { emailBlindIndex: { in: [index] } }],
+            NOT: { emailBlindIndex: { not: index } },
+        });
+    });
+
+    it('rewrites unique lookups and relation filters', async () => {
+        const { args: unique } = await runQuery(plugin, 'User', 'findUnique', {
+            where: { email: 'bob@example.com' },
+        });
+        expect(Object.keys(unique!['where'] as object)).toEqual(['emailBlindIndex']);
+
+        const { args: related } = await runQuery(plugin, 'User', 'findMany', {
+            include: { posts: { where: { author: { is: { email: 'bob@example.com' } } } } },
+        });
+        const postsWhere = ((related!['include'] as Record<string, Record<string, unknown>>)['posts']!['where']) as {
+            author: { is: Record<string, unknown> };
+        };
+        expect(postsWhere.author.is['emailBlindIndex']).toBe(
+            (unique!['where'] as Record<string, unknown>)['emailBlindIndex'],
+        );
+    });
+
+    it('rejects operators the blind index cannot answer', async () => {
+        const where = { email: { equals: 'a@b.com', contains: 'b', mode: 'insensitive' } };
+        await expect(runQuery(plugin, 'User', 'findMany', { where })).rejects.toThrow(
+            'Encrypted field User.email does not support filtering with contains',
+        );
+    });
+
+    it('keeps operators the blind index cannot answer on the original field when warning', async () => {
+        const logger = { warn: vi.fn() };
+        const warning = encryption({ key: 'test-secret', unsupportedFilters: 'warn', logger });
+        const { args } = await runQuery(warning, 'User', 'findMany', {
+            where: { email: { equals: 'a@b.com', contains: 'b', mode: 'insensitive' } },
+        });
+        const where = args!['where'] as Record<string, unknown>;
+        expect(where['email']).toEqual({ contains: 'b', mode: 'insensitive' });
+        expect(where['emailBlindIndex']).toHaveProperty('equals');
+        expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('User.email does not support'));
+    });
+
+    it('requires a blindIndex function with custom encryption', async () => {
+        const custom = encryption({ encrypt: async (_m, _f, v) => v, decrypt: async (_m, _f, v) => v });
+        await expect(runQuery(custom, 'User', 'findMany', { where: { email: 'a@b.com' } })).rejects.toThrow(
+            'requires a blindIndex function',
+        );
+    });
+});
+
+describe('Deterministic fields', () => {
+    const plugin = encryption({ key: 'test-secret' });
+
+    it('encrypts equal values to equal ciphertexts', async () => {
+        const { args: first } = await runQuery(plugin, 'User', 'create', { data: { nationalId: '123-45-6789' } });
+        const { args: second } = await runQuery(plugin, 'User', 'create', { data: { nationalId: '123-45-6789' } });
+        const ciphertext = (first!['data'] as Record<string, string>)['nationalId'];
+
+        expect(ciphertext).not.toBe('123-45-6789');
+        expect((second!['data'] as Record<string, string>)['nationalId']).toBe(ciphertext);
+    });
+
+    it('rewrites equality filters to ciphertext comparisons', async () => {
+        const { args: created } = await runQuery(plugin, 'User', 'create', { data: { nationalId: '123-45-6789' } });
+        const ciphertext = (created!['data'] as Record<string, string>)['nationalId'];
+
+        const { args } = await runQuery(plugin, 'User', 'findUnique', { where: { nationalId: '123-45-6789' } });
+        expect(args!['where']).toEqual({ nationalId: ciphertext });
+
+        const warning = encryption({ key: 'test-secret', unsupportedFilters: 'warn', logger: { warn: () => {} } });
+        const { args: mixed } = await runQuery(warning, 'User', 'findMany', {
+            where: { nationalId: { in: ['123-45-6789'], contains: '123' } },
+        });
+        expect(mixed!['where']).toEqual({
+            nationalId: { in: [ciphertext] },
+            AND: [{ nationalId: { contains: '123' } }],
+        });
+    });
+
+    it('decrypts deterministic ciphertexts on read', async () => {
+        const { args: created } = await runQuery(plugin, 'User', 'create', { data: { nationalId: '123-45-6789' } });
+        const { output } = await runQuery(plugin, 'User', 'findFirst', {}, { ...(created!['data'] as object) });
+        expect((output as Record<string, string>)['nationalId']).toBe('123-45-6789');
+    });
+});
+
+describe('Relation reachability', () => {
+    const plugin = encryption({ key: 'test-secret' });
+    const encrypt = async (value: string) => new Encrypter(await deriveKey('test-secret')).encrypt(value);
+
+    it('computes models that reach an encrypted field', () => {
+        const reachable = getEncryptionReachableModels(schema);
+        expect([...reachable].sort()).toEqual(['Post', 'User']);
+    });
+
+    it('encrypts nested writes from a model without encrypted fields', async () => {
+        const { args } = await runQuery(plugin, 'Post', 'create', {
+            data: { title: 'Hello', author: { create: { secret: 'nested secret' } } },
+        });
+        const author = (args!['data'] as Record<string, Record<string, Record<string, string>>>)['author']!;
+        expect(author['create']!['secret']).not.toBe('nested secret');
+        expect(readEncryptionMeta(author['create']!['secret']!).v).toBe(ENCRYPTER_VERSION);
+    });
+
+    it('encrypts to-one nested updates given as the data itself', async () => {
+        const args = { where: { id: 'p1' }, data: { author: { update: { secret: 'PLAIN' } } } };
+        const { args: passed } = await runQuery(plugin, 'Post', 'update', args);
+        const author = (passed!['data'] as Record<string, Record<string, Record<string, string>>>)['author']!;
+        expect(readEncryptionMeta(author['update']!['secret']!).v).toBe(ENCRYPTER_VERSION);
+        // the caller's args are left untouched
+        expect(args.data.author.update.secret).toBe('PLAIN');
+
+        const wrapped = { where: { id: 'p1' }, data: { author: { update: { data: { secret: 'PLAIN' } } } } };
+        const { args: passedWrapped } = await runQuery(plugin, 'Post', 'update', wrapped);
+        expect(JSON.stringify(passedWrapped)).not.toContain('PLAIN');
+    });
+
+    it('decrypts included and selected relations', async () => {
+        const secret = await encrypt('included secret');
+
+        const { output: included } = await runQuery(
+            plugin,
+            'Post',
+            'findMany',
+            { include: { author: true } },
+            [{ id: 'p1', title: 'Hello', author: { id: 'u1', secret } }],
+        );
+        expect(included).toEqual([{ id: 'p1', title: 'Hello', author: { id: 'u1', secret: 'included secret' } }]);
+
+        const { output: selected } = await runQuery(
+            plugin,
+            'User',
+            'findUnique',
+            { where: { id: 'u1' }, select: { secret: true, posts: { select: { author: true } } } },
+            { secret, posts: [{ author: { secret } }] },
+        );
+        expect(selected).toEqual({
+            secret: 'included secret',
+            posts: [{ author: { secret: 'included secret' } }],
+        });
+    });
+
+    it('covers returning write operations', async () => {
+        const secret = await encrypt('returned secret');
+
+        for (const operation of ['createManyAndReturn', 'updateManyAndReturn', 'delete']) {
+            const { args, output } = await runQuery(
+                plugin,
+                'User',
+                operation,
+                { where: { id: 'u1' }, data: operation === 'delete' ? undefined : { secret: 'new secret' } },
+                operation === 'delete' ? { id: 'u1', secret } : [{ id: 'u1', secret }],
+            );
+
+            if (operation !== 'delete') {
+                expect((args!['data'] as Record<string, string>)['secret']).not.toBe('new secret');
+            }
+            expect(JSON.stringify(output)).toContain('returned secret');
+        }
+    });
+
+    it('passes through models that cannot reach encrypted fields', async () => {
+        const args = { data: { label: 'x' } };
+        const { args: proceeded } = await runQuery(plugin, 'Tag', 'create', args);
+        expect(proceeded).toBe(args);
+    });
+});
+
+describe('Typed fields', () => {
+    const plugin = encryption({ key: 'test-secret' });
+
+    /**
+     * Write a record through the plugin, then read the stored values back
+     */
+    async function roundtrip(data: Record<string, unknown>) {
+        const { args } = await runQuery(plugin, 'User', 'create', { data });
+        const stored = args!['data'] as Record<string, unknown>;
+        // the columns of fields with a storage field are read back empty
+        const row = { age: null, birthDate: null, salary: null, ...stored };
+        const { output } = await runQuery(plugin, 'User', 'findFirst', {}, row);
+        return { stored, output: output as Record<string, unknown> };
+    }
+
+    it('encrypts Json values and restores them', async () => {
+        const record = { allergies: ['penicillin'], bloodType: 'O+', visits: 3 };
+        const { stored, output } = await roundtrip({ record });
+
+        expect(typeof stored['record']).toBe('string');
+        expect(output['record']).toEqual(record);
+    });
+
+    it('encrypts Bytes values into a Bytes column', async () => {
+        const attachment = new Uint8Array([0, 1, 2, 254, 255]);
+        const { stored, output } = await roundtrip({ attachment });
+
+        expect(stored['attachment']).toBeInstanceOf(Uint8Array);
+        // stored as a raw binary envelope
+        expect((stored['attachment'] as Uint8Array)[0]).toBe(ENCRYPTER_VERSION);
+        expect(output['attachment']).toEqual(attachment);
+    });
+
+    it('restores dates, decimals and numbers to their original types', async () => {
+        const dateOfBirth = new Date('1990-05-17T00:00:00.000Z');
+        for (const value of [dateOfBirth, new Decimal('1234.5678'), 42, 1.5, 10n ** 20n, false, 'plain']) {
+            const { output: restored } = await roundtrip({ record: value });
+            expect(restored['record']).toEqual(value);
+        }
+    });
+
+    it('leaves Json null markers untouched', async () => {
+        const { stored } = await roundtrip({ record: DbNull });
+        expect(stored['record']).toBe(DbNull);
+    });
+
+    it('encrypts Int, DateTime and Decimal values into their storage fields', async () => {
+        const birthDate = new Date('1990-05-17T00:00:00.000Z');
+        const salary = new Decimal('85000.50');
+        const { stored, output } = await roundtrip({ age: 34, birthDate, salary });
+
+        // their own columns are left alone
+        expect(stored).not.toHaveProperty('age');
+        expect(stored).not.toHaveProperty('salary');
+        expect(typeof stored['ageEncrypted']).toBe('string');
+        expect(stored['birthDateEncrypted']).toBeInstanceOf(Uint8Array);
+        expect(typeof stored['salaryEncrypted']).toBe('string');
+
+        expect(output['age']).toBe(34);
+        expect(output['birthDate']).toBeInstanceOf(Date);
+        expect(output['birthDate']).toEqual(birthDate);
+        expect(output['salary']).toBeInstanceOf(Decimal);
+        expect((output['salary'] as Decimal).equals(salary)).toBe(true);
+    });
+
+    it('restores values written in other representations to the field type', async () => {
+        const { output } = await roundtrip({ birthDate: '1990-05-17T00:00:00.000Z', salary: '0.1' });
+        expect(output['birthDate']).toEqual(new Date('1990-05-17T00:00:00.000Z'));
+        expect(output['salary']).toEqual(new Decimal('0.1'));
+
+        const { output: set } = await roundtrip({ age: { set: 7 } });
+        expect(set['age']).toBe(7);
+    });
+
+    it('clears the storage field and rejects arithmetic updates', async () => {
+        const { args } = await runQuery(plugin, 'User', 'update', { where: { id: '1' }, data: { age: null } });
+        expect(args!['data']).toEqual({ age: null, ageEncrypted: null });
+
+        const error = await runQuery(plugin, 'User', 'update', {
+            where: { id: '1' },
+            data: { age: { increment: 1 } },
+        }).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(UnsupportedEncryptedFilterError);
+        expect((error as Error).message).toBe('Encrypted field User.age does not support updating with increment');
+    });
+
+    it('reads values from storage fields, selected only with their fields', async () => {
+        const { stored } = await roundtrip({ age: 34 });
+        const { args, output } = await runQuery(
+            plugin,
+            'User',
+            'findFirst',
+            { select: { age: true } },
+            { age: null, ageEncrypted: stored['ageEncrypted'] },
+        );
+        expect(args!['select']).toMatchObject({ age: true, ageEncrypted: true });
+        expect(output).toEqual({ age: 34 });
+
+        const { args: others } = await runQuery(plugin, 'User', 'findFirst', { select: { secret: true } }, null);
+        expect(others!['select']).not.toHaveProperty('ageEncrypted');
+        const { args: omitted } = await runQuery(plugin, 'User', 'findFirst', { omit: { ageEncrypted: true } }, null);
+        expect(omitted!['omit']).toMatchObject({ ageEncrypted: false });
+    });
+
+    it('tests storage fields for null', async () => {
+        const { args } = await runQuery(plugin, 'User', 'findMany', { where: { birthDate: { not: null } } });
+        expect(args!['where']).toEqual({ birthDateEncrypted: { not: null } });
+    });
+});
+
+describe('Algorithms', () => {
+    const plugin = encryption({ key: 'test-secret', algorithm: 'AES-CBC-HMAC-SHA256' });
+
+    it('encrypts with the configured algorithm, overridden per field', async () => {
+        const { args } = await runQuery(plugin, 'User', 'create', {
+            data: { secret: 'configured', notes: 'per field', nationalId: '123' },
+        });
+        const stored = args!['data'] as Record<string, string>;
+        expect(readEncryptionMeta(stored['secret']!).a).toBe('AES-CBC-HMAC-SHA256');
+        expect(readEncryptionMeta(stored['notes']!).a).toBe('XChaCha20-Poly1305');
+        // deterministic fields keep AES-GCM with a synthetic IV
+        expect(readEncryptionMeta(stored['nationalId']!).a).toBe('AES-GCM-HMAC-SIV');
+
+        const { output } = await runQuery(plugin, 'User', 'findFirst', {}, { ...stored });
+        expect(output).toMatchObject({ secret: 'configured', notes: 'per field', nationalId: '123' });
+    });
+
+    it('reads values written with another algorithm', async () => {
+        const encrypted = await new Encrypter(await deriveKey('test-secret')).encrypt('gcm');
+        const { output } = await runQuery(plugin, 'User', 'findFirst', {}, { secret: encrypted });
+        expect(output).toMatchObject({ secret: 'gcm' });
+    });
+
+    it('rejects unknown algorithms', () => {
+        expect(() => encryption({ key: 'test-secret', algorithm: 'ROT13' })).toThrow(
+            'Unknown encryption algorithm "ROT13"',
+        );
+    });
+});
+
+describe('Key derivation', () => {
+    const kdf = { algorithm: 'pbkdf2' as const, salt: 'per-app-salt', iterations: 1000 };
+    const plugin = encryption({ key: 'test-secret', kdf, perFieldKeys: true });
+
+    it('encrypts each field with its own subkey of the derived key', async () => {
+        const { args } = await runQuery(plugin, 'User', 'create', { data: { secret: 'a', notes: 'b' } });
+        const stored = args!['data'] as Record<string, string>;
+        expect(readEncryptionMeta(stored['secret']!).s).toBe('User.secret');
+        expect(readEncryptionMeta(stored['notes']!).s).toBe('User.notes');
+
+        const { output } = await runQuery(plugin, 'User', 'findFirst', {}, { ...stored });
+        expect(output).toMatchObject({ secret: 'a', notes: 'b' });
+    });
+
+    it('shares the subkey of inherited fields with the declaring model', async () => {
+        const deterministic = { name: 'deterministic', value: { kind: 'literal', value: true } };
+        const code = { name: 'code', type: 'String', attributes: [{ name: '@encrypted', args: [deterministic] }] };
+        const model = (name: string, fields: Record<string, unknown>) => ({
+            name,
+            idFields: ['id'],
+            uniqueFields: { id: { type: 'String' } },
+            fields: { id: { name: 'id', type: 'String', id: true }, ...fields },
+        });
+        const delegateSchema = {
+            ...schema,
+            models: {
+                Asset: { ...model('Asset', { code }), isDelegate: true },
+                Video: { ...model('Video', { code: { ...code, originModel: 'Asset' } }), baseModel: 'Asset' },
+            },
+        } as unknown as SchemaDef;
+        const run = (model: string, operation: string, args: Record<string, unknown>) =>
+            plugin.onQuery!({
+                model,
+                operation,
+                args,
+                proceed: async (next: unknown) => next,
+                client: { schema: delegateSchema },
+            } as never) as Promise<Record<string, Record<string, string>>>;
+
+        const { data } = await run('Video', 'create', { data: { id: 'v1', code: 'x-1' } });
+        expect(readEncryptionMeta(data!['code']!).s).toBe('Asset.code');
+        const { where } = await run('Asset', 'findMany', { where: { code: 'x-1' } });
+        expect(where).toEqual({ code: data!['code'] });
+    });
+
+    it('still decrypts values under the SHA-256-derived key', async () => {
+        const encrypted = await new Encrypter(await deriveKey('test-secret')).encrypt('legacy');
+        const { output } = await runQuery(plugin, 'User', 'findFirst', {}, { secret: encrypted });
+        expect(output).toMatchObject({ secret: 'legacy' });
+    });
+
+    it('decrypts values under keys derived with previous KDF parameters', async () => {
+        const { args } = await runQuery(plugin, 'User', 'create', { data: { secret: 'old salt' } });
+        const stored = args!['data'] as Record<string, string>;
+
+        const newKdf = { ...kdf, salt: 'rotated-app-salt' };
+        const resalted = encryption({ key: 'test-secret', kdf: newKdf, previousKdfs: [kdf], perFieldKeys: true });
+        const { output } = await runQuery(resalted, 'User', 'findFirst', {}, { ...stored });
+        expect(output).toMatchObject({ secret: 'old salt' });
+
+        const logger = { warn: vi.fn() };
+        const stranded = encryption({ key: 'test-secret', kdf: newKdf, onDecryptError: 'null', logger });
+        expect(await runQuery(stranded, 'User', 'findFirst', {}, { ...stored })).toMatchObject({
+            output: { secret: null },
+        });
+    });
+
+    it('rejects invalid KDF parameters', () => {
+        expect(() => encryption({ key: 'test-secret', kdf: { algorithm: 'pbkdf2', salt: 'short' } })).toThrow(
+            'salt must be at least 8 bytes',
+        );
+    });
+});
+
+describe('Access control', () => {
+    const plugin = encryption({ key: 'test-secret' });
+
+    async function readAs(target: ReturnType<typeof encryption>, auth: unknown) {
+        const data = { id: 'u1', ssn: '123-45-6789', secret: 's' };
+        const { args } = await runQuery(target, 'User', 'create', { data });
+        const { output } = await runQuery(target, 'User', 'findFirst', {}, { ...(args!['data'] as object) }, auth);
+        return output as Record<string, unknown>;
+    }
+
+    it('decrypts fields for callers matching decryptFor and masks them for others', async () => {
+        expect((await readAs(plugin, { id: 'admin', role: 'ADMIN' }))['ssn']).toBe('123-45-6789');
+        expect((await readAs(plugin, { id: 'u1', role: 'USER' }))['ssn']).toBe('123-45-6789');
+        expect((await readAs(plugin, { id: 'u2', role: 'USER' }))['ssn']).toBe('***-**-6789');
+        expect(await readAs(plugin, undefined)).toMatchObject({ ssn: '***-**-6789', secret: 's' });
+    });
+
+    it('reads the fields decryptFor refers to and denies when they are missing', async () => {
+        const { args: created } = await runQuery(plugin, 'User', 'create', { data: { id: 'u1', ssn: '123-45-6789' } });
+        const ssn = (created!['data'] as Record<string, unknown>)['ssn'];
+
+        const select = { ssn: true };
+        const { args, output } = await runQuery(plugin, 'User', 'findFirst', { select }, { id: 'u1', ssn });
+        expect(args!['select']).toEqual({ ssn: true, id: true });
+        expect(output).toEqual({ ssn: '***-**-6789' });
+
+        // a row without the field, and a caller without the auth member, don't compare as null
+        expect(await runQuery(plugin, 'User', 'findFirst', {}, { ssn }, {})).toMatchObject({
+            output: { ssn: '***-**-6789' },
+        });
+    });
+
+    it('returns null or the mask hook output when canDecrypt denies', async () => {
+        const canDecrypt = vi.fn(
+            ({ field, auth }) => field.name !== 'secret' || (auth as { role?: string })?.role === 'ADMIN',
+        );
+        const nulling = encryption({ key: 'test-secret', canDecrypt });
+        expect(await readAs(nulling, { id: 'u1' })).toMatchObject({ ssn: '123-45-6789', secret: null });
+        expect(canDecrypt).toHaveBeenCalledWith(expect.objectContaining({ model: 'User', auth: { id: 'u1' } }));
+
+        const mask = (value: unknown) => `<${String(value).length} chars>`;
+        const masking = encryption({ key: 'test-secret', canDecrypt, mask });
+        expect(await readAs(masking, { id: 'u1' })).toMatchObject({ secret: '<1 chars>' });
+        expect(await readAs(masking, { role: 'ADMIN' })).toMatchObject({ secret: 's' });
+    });
+
+    it('masks plaintext read during migration', async () => {
+        const migrating = encryption({ key: 'test-secret', allowPlaintextRead: true });
+        const row = { id: 'u1', ssn: '123-45-6789' };
+        const { output } = await runQuery(migrating, 'User', 'findFirst', {}, row, { id: 'u2' });
+        expect(output).toMatchObject({ ssn: '***-**-6789' });
+    });
+});
+
+describe('Audit hooks', () => {
+    const sink = new MemoryAuditSink();
+    const plugin = encryption({ key: 'test-secret', onEncrypt: sink.record, onDecrypt: sink.record });
+
+    it('reports the values a write encrypted in one event', async () => {
+        sink.clear();
+        const auth = { id: 'admin' };
+        await runQuery(plugin, 'User', 'create', { data: { id: 'u1', secret: 's', email: 'a@b.com' } }, null, auth);
+
+        expect(sink.events).toHaveLength(1);
+        const [event] = sink.events;
+        expect(event).toMatchObject({ action: 'encrypt', model: 'User', operation: 'create', auth });
+        expect(event!.values.map((value) => value.field).sort()).toEqual(['email', 'secret']);
+        expect(event!.values[0]).toMatchObject({ model: 'User', id: { id: 'u1' }, keyId: expect.any(String) });
+    });
+
+    it('reports the values a read decrypted in one event per query', async () => {
+        const { args } = await runQuery(plugin, 'User', 'create', { data: { secret: 's' } });
+        const stored = (args!['data'] as Record<string, unknown>)['secret'];
+        const rows = Array.from({ length: 1000 }, (_, i) => ({ id: `u${i}`, secret: stored }));
+        sink.clear();
+
+        const { args: read, output } = await runQuery(plugin, 'User', 'findMany', { select: { secret: true } }, rows);
+
+        expect(sink.events).toHaveLength(1);
+        expect(sink.events[0]).toMatchObject({ action: 'decrypt', operation: 'findMany', auth: undefined });
+        expect(sink.events[0]!.values).toHaveLength(1000);
+        expect(sink.events[0]!.values).toContainEqual(expect.objectContaining({ field: 'secret', id: { id: 'u999' } }));
+        // ids are read for the event but not returned
+        expect(read!['select']).toMatchObject({ id: true });
+        expect((output as Record<string, unknown>[])[0]).toEqual({ secret: 's' });
+    });
+
+    it('leaves out values the caller may not decrypt', async () => {
+        const { args } = await runQuery(plugin, 'User', 'create', { data: { id: 'u1', ssn: '123-45-6789' } });
+        sink.clear();
+        await runQuery(plugin, 'User', 'findFirst', {}, { ...(args!['data'] as object) }, { id: 'u2' });
+        expect(sink.events).toEqual([]);
+    });
+
+    it('fills in ids generated on write from the rows it returns', async () => {
+        sink.clear();
+        const author = { create: { secret: 's', email: 'a@b.com' } };
+        await plugin.onQuery!({
+            model: 'Post',
+            operation: 'create',
+            args: { data: { id: 'p1', title: 't', author }, include: { author: true } },
+            // the database generates the author's id
+            proceed: async (next: { data: { author: typeof author } }) => ({
+                id: 'p1',
+                title: 't',
+                author: { id: 'u-generated', ...next.data.author.create },
+            }),
+            client: { schema, $unuse: () => emptyClient },
+        } as never);
+
+        expect(sink.events[0]!.values).toEqual([
+            expect.objectContaining({ model: 'User', field: 'secret', id: { id: 'u-generated' } }),
+            expect.objectContaining({ model: 'User', field: 'email', id: { id: 'u-generated' } }),
+        ]);
+    });
+
+    it('looks up the ids of rows created without returning them', async () => {
+        sink.clear();
+        const findMany = vi.fn(async ({ where }: { where: Record<string, { in: string[] }> }) =>
+            Object.values(where)[0]!.in.map((encrypted, i) => ({ id: `u${i}`, secret: encrypted })),
+        );
+        await plugin.onQuery!({
+            model: 'User',
+            operation: 'createMany',
+            args: { data: [{ secret: 'a' }, { secret: 'b' }] },
+            proceed: async () => ({ count: 2 }),
+            client: { schema, $unuse: () => ({ user: { findMany } }) },
+        } as never);
+
+        expect(findMany).toHaveBeenCalledOnce();
+        expect(findMany).toHaveBeenCalledWith({
+            where: { secret: { in: [expect.any(String), expect.any(String)] } },
+            select: { id: true, secret: true },
+        });
+        expect(sink.events[0]!.values.map((value) => value.id)).toEqual([{ id: 'u0' }, { id: 'u1' }]);
+    });
+});
+
+describe('Lazy decryption', () => {
+    const plugin = encryption({ key: 'test-secret', lazyDecrypt: true });
+
+    async function readLazily(target: ReturnType<typeof encryption>, auth?: unknown) {
+        const data = { id: 'u1', secret: 's', ssn: '123-45-6789' };
+        const { args } = await runQuery(target, 'User', 'create', { data });
+        const stored = args!['data'] as Record<string, unknown>;
+        const { output } = await runQuery(target, 'User', 'findMany', {}, [{ ...stored }], auth);
+        return { stored, row: (output as Record<string, unknown>[])[0]! };
+    }
+
+    it('returns encrypted values decrypted on first reveal', async () => {
+        const { row } = await readLazily(plugin, { id: 'u2' });
+        const secret = row['secret'] as EncryptedValue<string>;
+        expect(secret).toBeInstanceOf(EncryptedValue);
+        expect(secret.revealed).toBe(false);
+        expect(String(secret)).toBe('[EncryptedValue]');
+
+        expect(await secret.reveal()).toBe('s');
+        expect(secret.revealed).toBe(true);
+        expect(await (row['ssn'] as EncryptedValue).reveal()).toBe('***-**-6789');
+    });
+
+    it('reveals all values of a result in place', async () => {
+        const { row } = await readLazily(plugin, { id: 'u1' });
+        expect(await revealAll([row])).toEqual([expect.objectContaining({ secret: 's', ssn: '123-45-6789' })]);
+    });
+
+    it('serializes values as configured', async () => {
+        const { row } = await readLazily(plugin);
+        expect(JSON.parse(JSON.stringify(row))).toMatchObject({ secret: null });
+
+        const stored = await readLazily(encryption({ key: 'test-secret', lazyDecrypt: { json: 'stored' } }));
+        expect(JSON.parse(JSON.stringify(stored.row))).toMatchObject({ secret: stored.stored['secret'] });
+
+        const revealing = await readLazily(encryption({ key: 'test-secret', lazyDecrypt: { json: 'revealed' } }));
+        expect(() => JSON.stringify(revealing.row)).toThrow('must be revealed');
+        await (revealing.row['secret'] as EncryptedValue).reveal();
+        expect(JSON.parse(JSON.stringify(revealing.row['secret']))).toBe('s');
+    });
+
+    it('reports each reveal to onDecrypt', async () => {
+        const sink = new MemoryAuditSink();
+        const { row } = await readLazily(encryption({ key: 'test-secret', lazyDecrypt: true, onDecrypt: sink.record }));
+        expect(sink.events).toEqual([]);
+
+        await (row['secret'] as EncryptedValue).reveal();
+        await (row['secret'] as EncryptedValue).reveal();
+        expect(sink.events).toHaveLength(1);
+        expect(sink.events[0]).toMatchObject({
+            operation: 'findMany',
+            values: [{ field: 'secret', id: { id: 'u1' } }],
+        });
+    });
+
+    it('reports the values revealAll reveals in one event', async () => {
+        const sink = new MemoryAuditSink();
+        const target = encryption({ key: 'test-secret', lazyDecrypt: true, onDecrypt: sink.record });
+        const { row } = await readLazily(target, { id: 'u1' });
+
+        await revealAll(row);
+        expect(sink.events).toHaveLength(1);
+        expect(sink.events[0]!.values.map((value) => value.field).sort()).toEqual(['secret', 'ssn']);
+    });
+});
+
+describe('Batched crypto', () => {
+    const reverse = (value: string) => [...value].reverse().join('');
+    // the schema has a searchable field, which custom encryption must be able to index
+    const blindIndex = async (_m: string, _f: unknown, v: string) => reverse(v);
+
+    it('encrypts and decrypts the values of a query in one custom batch', async () => {
+        const encryptMany = vi.fn(async (items: { plain: string }[]) => items.map(({ plain }) => reverse(plain)));
+        const decryptMany = vi.fn(async (items: { cipher: string }[]) => items.map(({ cipher }) => reverse(cipher)));
+        const plugin = encryption({
+            encrypt: async () => expect.unreachable(),
+            decrypt: async () => expect.unreachable(),
+            encryptMany,
+            decryptMany,
+            blindIndex,
+        });
+
+        const data = Array.from({ length: 100 }, (_, i) => ({ id: `u${i}`, secret: `s${i}`, notes: `n${i}` }));
+        const { args } = await runQuery(plugin, 'User', 'createMany', { data });
+        expect(encryptMany).toHaveBeenCalledTimes(1);
+        expect(encryptMany.mock.calls[0]![0]).toHaveLength(200);
+        expect((args!['data'] as Record<string, unknown>[])[42]).toMatchObject({ secret: '24s', notes: '24n' });
+
+        const { output } = await runQuery(plugin, 'User', 'findMany', {}, args!['data']);
+        expect(decryptMany).toHaveBeenCalledTimes(1);
+        expect(output).toEqual(data);
+    });
+
+    it('handles a failed batch as decryption errors of its values', async () => {
+        const onDecryptError = vi.fn(() => null);
+        const plugin = encryption({
+            encrypt: async (_m, _f, v) => v,
+            decrypt: async (_m, _f, v) => v,
+            decryptMany: async () => {
+                throw new Error('service unavailable');
+            },
+            blindIndex,
+            onDecryptError,
+        });
+        const rows = [
+            { id: 'u1', secret: 'a' },
+            { id: 'u2', secret: 'b' },
+        ];
+        const { output } = await runQuery(plugin, 'User', 'findMany', {}, rows);
+        expect(output).toEqual([
+            { id: 'u1', secret: null },
+            { id: 'u2', secret: null },
+        ]);
+        expect(onDecryptError).toHaveBeenCalledTimes(2);
+    });
+
+    it('limits how many values are processed at once', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const plugin = encryption({
+            encrypt: async (_m, _f, v) => v,
+            decrypt: async (_m, _f, v) => {
+                maxInFlight = Math.max(maxInFlight, ++inFlight);
+                await new Promise((resolve) => setTimeout(resolve, 1));
+                inFlight--;
+                return v;
+            },
+            blindIndex,
+            concurrency: 4,
+        });
+        const rows = Array.from({ length: 20 }, (_, i) => ({ id: `u${i}`, secret: `s${i}` }));
+        await runQuery(plugin, 'User', 'findMany', {}, rows);
+        expect(maxInFlight).toBe(4);
+    });
+
+    it('rejects an invalid concurrency', () => {
+        expect(() => encryption({ key: 'test-secret', concurrency: 0 })).toThrow('positive integer');
+    });
+});
+
+describe('Write args', () => {
+    const plugin = encryption({ key: 'test-secret' });
+
+    const values = {
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        visits: 9007199254740993n,
+        balance: new Decimal('12.345'),
+        avatar: new Uint8Array([1, 2, 3]),
+        settings: { theme: 'dark', since: new Date('2023-01-01T00:00:00Z') },
+        tags: ['a', 'b'],
+    };
+
+    async function create(data: Record<string, unknown>) {
+        const args = { data: { id: 'u1', secret: 's', ...data } };
+        const { args: passed } = await runQuery(plugin, 'User', 'create', args);
+        // the caller's args are left as they were
+        expect(args.data.secret).toBe('s');
+        return passed!['data'] as Record<string, unknown>;
+    }
+
+    it.each(Object.entries(values))('passes %s values on as they are', async (name, value) => {
+        const data = await create({ [name]: value });
+        expect(data[name]).toBe(value);
+        expect(data['secret']).not.toBe('s');
+    });
+
+    it('keeps undefined values and Json null markers', async () => {
+        const data = await create({ visits: undefined, settings: DbNull });
+        expect(data).toHaveProperty('visits', undefined);
+        expect(data['settings']).toBe(DbNull);
+    });
+
+    it('passes Buffer values on as they are', async () => {
+        const { Buffer } = await import('node:buffer');
+        const avatar = Buffer.from('avatar');
+        expect((await create({ avatar }))['avatar']).toBe(avatar);
+    });
+
+    it('copies nested writes without touching the caller args', async () => {
+        const post = { id: 'p1', title: 'Hello', author: { connect: { id: 'u1' } } };
+        const args = {
+            where: { id: 'u1' },
+            data: {
+                secret: 's',
+                createdAt: values.createdAt,
+                posts: { create: [post], update: { where: { id: 'p2' }, data: { title: 'Hi' } } },
+            },
+        };
+        const snapshot = JSON.stringify(args);
+        const { args: passed } = await runQuery(plugin, 'User', 'update', args);
+
+        expect(JSON.stringify(args)).toBe(snapshot);
+        const data = passed!['data'] as Record<string, Record<string, unknown>>;
+        expect(data['secret']).not.toBe('s');
+        expect(data['posts']).not.toBe(args.data.posts);
+        expect(data['createdAt']).toBe(values.createdAt);
+        // values the plugin doesn't write to are shared
+        expect((data['posts']!['create'] as unknown[])[0]).toEqual(post);
+        expect(passed!['where']).toEqual(args.where);
+    });
+});
+
+describe('Unsupported filters', () => {
+    const plugin = encryption({ key: 'test-secret' });
+
+    const expectUnsupported = async (operation: string, args: Record<string, unknown>, message: string) => {
+        const error = await runQuery(plugin, 'User', operation, args).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(UnsupportedEncryptedFilterError);
+        expect((error as Error).message).toBe(`Encrypted field ${message}`);
+    };
+
+    it('rejects filters on encrypted values', async () => {
+        await expectUnsupported(
+            'findMany',
+            { where: { secret: 's' } },
+            'User.secret does not support filtering with equals',
+        );
+        await expectUnsupported(
+            'findMany',
+            { where: { OR: [{ secret: { startsWith: 'a', gt: 'b' } }] } },
+            'User.secret does not support filtering with startsWith, gt',
+        );
+        await expectUnsupported(
+            'findMany',
+            { where: { posts: { some: { author: { is: { secret: { contains: 's' } } } } } } },
+            'User.secret does not support filtering with contains',
+        );
+        await expectUnsupported(
+            'update',
+            { where: { id: 'u1' }, data: { posts: { updateMany: { where: { author: { secret: 's' } }, data: {} } } } },
+            'User.secret does not support filtering with equals',
+        );
+    });
+
+    it('rejects case-insensitive equality on searchable and deterministic fields', async () => {
+        await expectUnsupported(
+            'findMany',
+            { where: { email: { equals: 'A@B.com', mode: 'insensitive' } } },
+            'User.email does not support filtering with mode',
+        );
+        await expectUnsupported(
+            'findMany',
+            { where: { nationalId: { in: ['123'], mode: 'insensitive' } } },
+            'User.nationalId does not support filtering with mode',
+        );
+        const where = { email: { equals: 'a', mode: 'default' } };
+        const { args } = await runQuery(plugin, 'User', 'findMany', { where });
+        expect(args!['where']).toEqual({ emailBlindIndex: { equals: expect.any(String) } });
+    });
+
+    it('allows null tests', async () => {
+        const where = { secret: null, notes: { not: null }, record: { equals: DbNull }, ssn: { equals: null } };
+        const { args } = await runQuery(plugin, 'User', 'findMany', { where });
+        expect(args!['where']).toEqual(where);
+    });
+
+    it('rejects sorting, grouping and aggregating by encrypted fields', async () => {
+        await expectUnsupported(
+            'findMany',
+            { orderBy: [{ id: 'asc' }, { secret: 'desc' }] },
+            'User.secret does not support orderBy',
+        );
+        await expectUnsupported(
+            'findMany',
+            { include: { posts: { orderBy: { author: { email: 'asc' } } } } },
+            'User.email does not support orderBy',
+        );
+        await expectUnsupported('findMany', { distinct: ['secret'] }, 'User.secret does not support distinct');
+        await expectUnsupported('groupBy', { by: ['email'] }, 'User.email does not support groupBy');
+        await expectUnsupported('aggregate', { _max: { secret: true } }, 'User.secret does not support _max');
+        await expectUnsupported(
+            'groupBy',
+            { by: ['id'], orderBy: { _min: { secret: 'asc' } } },
+            'User.secret does not support _min in orderBy',
+        );
+        await expectUnsupported(
+            'groupBy',
+            { by: ['id'], having: { secret: { contains: 's' } } },
+            'User.secret does not support having',
+        );
+    });
+
+    it('rewrites what encrypted values can answer', async () => {
+        const { args } = await runQuery(plugin, 'User', 'findMany', {
+            distinct: ['email', 'nationalId'],
+            orderBy: { posts: { _count: 'desc' } },
+        });
+        expect(args!['distinct']).toEqual(['emailBlindIndex', 'nationalId']);
+
+        const groupBy = { by: ['nationalId'], _count: { secret: true } };
+        const { args: grouped } = await runQuery(plugin, 'User', 'groupBy', groupBy);
+        expect(grouped).toEqual(groupBy);
+    });
+
+    it('warns once per field and usage instead when configured', async () => {
+        const logger = { warn: vi.fn() };
+        const warning = encryption({ key: 'test-secret', unsupportedFilters: 'warn', logger });
+        await runQuery(warning, 'User', 'findMany', { orderBy: { secret: 'asc' } });
+        const { args } = await runQuery(warning, 'User', 'findMany', { orderBy: { secret: 'asc' } });
+        expect(args!['orderBy']).toEqual({ secret: 'asc' });
+        expect(logger.warn).toHaveBeenCalledTimes(1);
+        expect(logger.warn).toHaveBeenCalledWith(
+            'Encrypted field User.secret does not support orderBy, the query may return wrong results',
+        );
+    });
+});
+
+describe('Type definitions', () => {
+    const sink = new MemoryAuditSink();
+    const plugin = encryption({ key: 'test-secret', associatedData: 'row', onEncrypt: sink.record });
+
+    const address = { street: '1 Main St', city: 'Springfield' };
+    const accounts = [
+        { iban: 'DE89370400440532013000', holder: { name: 'Alice', taxId: '12345' } },
+        { iban: 'FR1420041010050500013M02606', holder: null },
+    ];
+
+    async function create() {
+        const data = { id: 'u1', address, accounts };
+        const { args } = await runQuery(plugin, 'User', 'create', { data });
+        return args!['data'] as Record<string, unknown>;
+    }
+
+    it('encrypts the encrypted fields of typed Json values, including lists and nested types', async () => {
+        sink.clear();
+        const stored = (await create()) as { address: typeof address; accounts: typeof accounts };
+
+        expect(stored.address.city).toBe('Springfield');
+        expect(readEncryptionMeta(stored.address.street).d).toBe('row');
+        expect(stored.accounts[0]!.holder!.name).toBe('Alice');
+        expect(stored.accounts[0]!.holder!.taxId).not.toBe('12345');
+        expect(stored.accounts[1]!.iban).not.toBe(accounts[1]!.iban);
+        expect(stored.accounts[1]!.holder).toBeNull();
+        // the caller's values are left as they were
+        expect(address.street).toBe('1 Main St');
+        expect(accounts[0]!.holder!.taxId).toBe('12345');
+
+        expect(sink.events[0]!.values.map((value) => value.field).sort()).toEqual([
+            'accounts.holder.taxId',
+            'accounts.iban',
+            'accounts.iban',
+            'address.street',
+        ]);
+    });
+
+    it('decrypts them on read', async () => {
+        const stored = await create();
+        const { args, output } = await runQuery(
+            plugin,
+            'User',
+            'findFirst',
+            { select: { address: true, accounts: true } },
+            { ...stored },
+        );
+        expect(args!['select']).toMatchObject({ id: true });
+        expect(output).toEqual({ address, accounts });
+    });
+});
+
+describe('Key provider encryption', () => {
+    const plugin = encryption({
+        keyProvider: new LocalKeyProvider({ primary: 'kek-secret' }, 'primary'),
+        dataKeyScope: ({ model }) => model,
+        blindIndexKey: 'index-secret',
+    });
+
+    it('roundtrips values through wrapped data keys', async () => {
+        const { args } = await runQuery(plugin, 'User', 'create', {
+            data: { secret: 'enveloped', email: 'a@b.com', record: { a: 1 } },
+        });
+        const stored = args!['data'] as Record<string, unknown>;
+        expect(stored['emailBlindIndex']).toMatch(/^[0-9a-f]{64}$/);
+
+        const { output } = await runQuery(plugin, 'User', 'findFirst', {}, { ...stored });
+        expect(output).toMatchObject({ secret: 'enveloped', email: 'a@b.com', record: { a: 1 } });
+    });
+
+    it('rejects deterministic fields', async () => {
+        await expect(runQuery(plugin, 'User', 'create', { data: { nationalId: '1' } })).rejects.toThrow(
+            'not supported with a key provider',
+        );
+    });
+});
+
+describe('Per-tenant keys', () => {
+    const tenantKeys: Record<string, string> = { acme: 'acme-secret', globex: 'globex-secret' };
+    const keyResolver = ({ auth }: { auth: unknown }) => tenantKeys[(auth as { tenantId: string }).tenantId];
+
+    it('encrypts each tenant with its own key', async () => {
+        const plugin = encryption({ key: 'default-secret', keyResolver });
+        const { args: acme } = await runQuery(plugin, 'User', 'create', { data: { secret: 's' } }, null, {
+            tenantId: 'acme',
+        });
+        const { args: globex } = await runQuery(plugin, 'User', 'create', { data: { secret: 's' } }, null, {
+            tenantId: 'globex',
+        });
+
+        const acmeSecret = (acme!['data'] as Record<string, string>)['secret']!;
+        const globexSecret = (globex!['data'] as Record<string, string>)['secret']!;
+        expect(readEncryptionMeta(acmeSecret).k).not.toBe(readEncryptionMeta(globexSecret).k);
+
+        // resolved keys are used to decrypt, whoever reads
+        const { output } = await runQuery(plugin, 'User', 'findFirst', {}, { secret: acmeSecret });
+        expect(output).toEqual({ secret: 's' });
+    });
+
+    it('passes the row being written to the resolver', async () => {
+        const resolver = vi.fn(() => undefined);
+        const plugin = encryption({ key: 'default-secret', keyResolver: resolver });
+        await runQuery(plugin, 'User', 'create', { data: { id: '1', secret: 's' } }, null, { tenantId: 'acme' });
+
+        expect(resolver).toHaveBeenCalledWith(
+            expect.objectContaining({ model: 'User', row: { id: '1', secret: 's' }, auth: { tenantId: 'acme' } }),
+        );
+    });
+
+    it('makes only a shredded tenant unreadable', async () => {
+        const writer = encryption({ key: 'default-secret', keyResolver });
+        const write = async (tenantId: string) => {
+            const { args } = await runQuery(writer, 'User', 'create', { data: { secret: tenantId } }, null, {
+                tenantId,
+            });
+            return (args!['data'] as Record<string, string>)['secret']!;
+        };
+        const acmeSecret = await write('acme');
+        const globexSecret = await write('globex');
+
+        // acme's key has been deleted from the keyring
+        const reader = encryption({ key: 'default-secret', keyring: [tenantKeys['globex']!] });
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const { output } = await runQuery(reader, 'User', 'findMany', {}, [
+            { secret: acmeSecret },
+            { secret: globexSecret },
+        ]);
+        warn.mockRestore();
+
+        expect(output).toEqual([{ secret: acmeSecret }, { secret: 'globex' }]);
+    });
+
+    it('resolves the keys of deterministic filter values from the equality conditions of the filter', async () => {
+        const deterministic = { name: 'deterministic', value: { kind: 'literal', value: true } };
+        const code = { name: 'code', type: 'String', attributes: [{ name: '@encrypted', args: [deterministic] }] };
+        const tenantSchema = {
+            ...schema,
+            models: {
+                Member: {
+                    name: 'Member',
+                    idFields: ['id'],
+                    uniqueFields: { id: { type: 'String' } },
+                    fields: {
+                        id: { name: 'id', type: 'String', id: true },
+                        tenantId: { name: 'tenantId', type: 'String' },
+                        code,
+                    },
+                },
+            },
+        } as unknown as SchemaDef;
+        const plugin = encryption({
+            key: 'default-secret',
+            keyResolver: ({ row }) => tenantKeys[row['tenantId'] as string],
+        });
+        const run = (operation: string, args: Record<string, unknown>) =>
+            plugin.onQuery!({
+                model: 'Member',
+                operation,
+                args,
+                proceed: async (next: unknown) => next,
+                client: { schema: tenantSchema },
+            } as never) as Promise<Record<string, Record<string, unknown>>>;
+
+        const { data } = await run('create', { data: { id: '1', tenantId: 'acme', code: 'c-1' } });
+        const { where } = await run('findFirst', { where: { tenantId: { equals: 'acme' }, code: 'c-1' } });
+        expect(where).toEqual({ tenantId: { equals: 'acme' }, code: data!['code'] });
+
+        // conditions of enclosing levels apply to nested ones
+        const { where: nested } = await run('findMany', { where: { tenantId: 'acme', OR: [{ code: 'c-1' }] } });
+        expect(nested).toEqual({ tenantId: 'acme', OR: [{ code: data!['code'] }] });
+
+        // without the tenant, the resolver falls back to the default key
+        const { where: untenanted } = await run('findFirst', { where: { code: 'c-1' } });
+        expect(untenanted!['code']).not.toBe(data!['code']);
+    });
+});
+
+describe('Named keys', () => {
+    const namedSchema = {
+        provider: { type: 'sqlite' },
+        plugins: {},
+        models: {
+            Payment: {
+                name: 'Payment',
+                idFields: ['id'],
+                uniqueFields: { id: { type: 'String' } },
+                fields: {
+                    id: { name: 'id', type: 'String', id: true },
+                    note: { name: 'note', type: 'String', attributes: [{ name: '@encrypted' }] },
+                    iban: {
+                        name: 'iban',
+                        type: 'String',
+                        attributes: [
+                            {
+                                name: '@encrypted',
+                                args: [{ name: 'keyId', value: { kind: 'literal', value: 'payments' } }],
+                            },
+                        ],
+                    },
+                },
+            },
+        },
+    } as unknown as SchemaDef;
+
+    async function run(plugin: ReturnType<typeof encryption>, operation: string, args: Args, result: unknown = null) {
+        let proceededArgs: Args;
+        const output = await plugin.onQuery!({
+            model: 'Payment',
+            operation,
+            args,
+            proceed: async (next: Args) => {
+                proceededArgs = next;
+                return result;
+            },
+            client: { schema: namedSchema },
+        } as never);
+        return { args: proceededArgs, output };
+    }
+
+    it('encrypts fields with the key they select', async () => {
+        const plugin = encryption({ key: 'default-secret', keys: { payments: { key: 'payments-secret' } } });
+        const { args } = await run(plugin, 'create', { data: { id: 'p1', note: 'n', iban: 'DE89' } });
+        const data = args!['data'] as Record<string, string>;
+
+        const digest = async (secret: string) => getKeyDigest(await deriveKey(secret));
+        expect(readEncryptionMeta(data['note']!).k).toBe(await digest('default-secret'));
+        expect(readEncryptionMeta(data['iban']!).k).toBe(await digest('payments-secret'));
+
+        const { output } = await run(plugin, 'findFirst', {}, { ...data });
+        expect(output).toEqual({ id: 'p1', note: 'n', iban: 'DE89' });
+    });
+
+    it('rotates a named key independently of the others', async () => {
+        const before = encryption({ key: 'default-secret', keys: { payments: { key: 'payments-2024' } } });
+        const { args } = await run(before, 'create', { data: { id: 'p1', note: 'n', iban: 'DE89' } });
+
+        const after = encryption({
+            key: 'default-secret',
+            keys: { payments: { key: 'payments-2025', previousKeys: ['payments-2024'] } },
+        });
+        const { output } = await run(after, 'findFirst', {}, { ...(args!['data'] as object) });
+        expect(output).toEqual({ id: 'p1', note: 'n', iban: 'DE89' });
+    });
+
+    it('rejects key ids that are not configured', () => {
+        expect(() => encryption({ key: 'default-secret', schema: namedSchema })).toThrow(
+            'Payment.iban: unknown key id "payments" (no named keys are configured)',
+        );
+        const pii = { pii: { key: 'pii-secret' } };
+        expect(() => encryption({ key: 'default-secret', keys: pii, schema: namedSchema })).toThrow(
+            'Payment.iban: unknown key id "payments" (configured: pii)',
+        );
+    });
+});
+
+describe('Key reload', () => {
+    const digest = async (secret: string) => getKeyDigest(await deriveKey(secret));
+
+    async function writeSecret(plugin: ReturnType<typeof encryption>, secret: string) {
+        const { args } = await runQuery(plugin, 'User', 'create', { data: { secret } });
+        return (args!['data'] as Record<string, string>)['secret']!;
+    }
+
+    it('swaps in reloaded keys and reports the change', async () => {
+        let keys: KeySet = { key: 'secret-2024' };
+        const onKeyChange = vi.fn();
+        const plugin = encryption({ keySource: async () => keys, blindIndexKey: 'index-secret', onKeyChange });
+
+        const before = await writeSecret(plugin, 'old');
+        expect(readEncryptionMeta(before).k).toBe(await digest('secret-2024'));
+
+        keys = { key: 'secret-2025', previousKeys: ['secret-2024'] };
+        await plugin.reloadKeys();
+        const after = await writeSecret(plugin, 'new');
+        expect(readEncryptionMeta(after).k).toBe(await digest('secret-2025'));
+        expect(onKeyChange).toHaveBeenCalledExactlyOnceWith({
+            previousDigest: await digest('secret-2024'),
+            digest: await digest('secret-2025'),
+            timestamp: expect.any(Date),
+        });
+
+        const { output } = await runQuery(plugin, 'User', 'findFirst', {}, { id: '1', secret: before });
+        expect(output).toEqual({ id: '1', secret: 'old' });
+
+        // reloading unchanged keys reports nothing
+        await plugin.reloadKeys();
+        expect(onKeyChange).toHaveBeenCalledOnce();
+    });
+
+    it('keeps blind indexes across a reload that rotates the key', async () => {
+        let keys: KeySet = { key: 'secret-2024' };
+        const plugin = encryption({ keySource: () => keys, blindIndexKey: 'index-secret' });
+        const { args: created } = await runQuery(plugin, 'User', 'create', { data: { email: 'a@b.com', secret: 's' } });
+        const index = (created!['data'] as Record<string, string>)['emailBlindIndex'];
+
+        keys = { key: 'secret-2025', previousKeys: ['secret-2024'] };
+        await plugin.reloadKeys();
+        const { args } = await runQuery(plugin, 'User', 'findFirst', { where: { email: 'a@b.com' } });
+        expect(args!['where']).toEqual({ emailBlindIndex: index });
+
+        // without a blindIndexKey, indexes would change with the key
+        const unstable = encryption({ keySource: () => keys });
+        await expect(runQuery(unstable, 'User', 'findFirst', { where: { email: 'a@b.com' } })).rejects.toThrow(
+            'User.email: searchable requires a blindIndexKey with a keySource',
+        );
+    });
+
+    it('keeps the current keys when a reload fails', async () => {
+        let keys: unknown = { key: 'secret-2024' };
+        const plugin = encryption({ keySource: async () => keys as KeySet, blindIndexKey: 'index-secret' });
+        await writeSecret(plugin, 's');
+
+        keys = { key: 42 };
+        await expect(plugin.reloadKeys()).rejects.toThrow('Invalid keys in key source');
+        expect(readEncryptionMeta(await writeSecret(plugin, 's')).k).toBe(await digest('secret-2024'));
+    });
+
+    it('reloads on an interval', async () => {
+        let keys: KeySet = { key: 'secret-2024' };
+        const plugin = encryption({ keySource: () => keys, blindIndexKey: 'index-secret', reloadInterval: 10 });
+        await writeSecret(plugin, 's');
+
+        keys = { key: 'secret-2025' };
+        await vi.waitFor(async () =>
+            expect(readEncryptionMeta(await writeSecret(plugin, 's')).k).toBe(await digest('secret-2025')),
+        );
+        plugin.stopKeyReload();
+    });
+
+    it('loads and watches a key file', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'zenstack-encryption-'));
+        try {
+            const file = join(dir, 'keys.json');
+            await writeFile(file, JSON.stringify({ key: 'secret-2024' }));
+            const plugin = encryption({ keySource: { file }, blindIndexKey: 'index-secret' });
+            expect(readEncryptionMeta(await writeSecret(plugin, 's')).k).toBe(await digest('secret-2024'));
+
+            await writeFile(file, JSON.stringify({ key: 'secret-2025', previousKeys: ['secret-2024'] }));
+            await vi.waitFor(async () =>
+                expect(readEncryptionMeta(await writeSecret(plugin, 's')).k).toBe(await digest('secret-2025')),
+            );
+            plugin.stopKeyReload();
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('requires a key source to reload', async () => {
+        await expect(encryption({ key: 'secret' }).reloadKeys()).rejects.toThrow('requires a keySource');
+        expect(() => encryption({ keySource: () => ({ key: 'secret' }), reloadInterval: 0 })).toThrow(
+            'reloadInterval must be a positive number',
+        );
+    });
+});
+
+describe('Decryption errors', () => {
+    const read = (onDecryptError: Parameters<typeof encryption>[0]['onDecryptError'], logger = { warn: vi.fn() }) =>
+        runQuery(encryption({ key: 'other-secret', onDecryptError, logger }), 'User', 'findFirst', {}, {
+            id: '1',
+            secret: storedSecret,
+        });
+    let storedSecret: string;
+
+    beforeAll(async () => {
+        const { args } = await runQuery(encryption({ key: 'test-secret' }), 'User', 'create', {
+            data: { secret: 's' },
+        });
+        storedSecret = (args!['data'] as Record<string, string>)['secret']!;
+    });
+
+    it('keeps the stored value and logs a warning by default', async () => {
+        const logger = { warn: vi.fn() };
+        const { output } = await read(undefined, logger);
+        expect(output).toEqual({ id: '1', secret: storedSecret });
+        expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to decrypt User.secret'));
+    });
+
+    it('throws a DecryptionError with the model, field and key id', async () => {
+        const error = await read('throw').catch((err: unknown) => err);
+        expect(error).toBeInstanceOf(DecryptionError);
+        expect(error).toMatchObject({
+            model: 'User',
+            field: 'secret',
+            keyId: readEncryptionMeta(storedSecret).k,
+        });
+    });
+
+    it('returns null for the field', async () => {
+        const { output } = await read('null');
+        expect(output).toEqual({ id: '1', secret: null });
+    });
+
+    it('uses the value returned by a callback', async () => {
+        const { output } = await read((err) => `<${err.field} unavailable>`);
+        expect(output).toEqual({ id: '1', secret: '<secret unavailable>' });
+    });
+});
+
+describe('Plaintext migration', () => {
+    it('returns plaintext values as stored and flags them', async () => {
+        const onPlaintextRead = vi.fn();
+        const plugin = encryption({ key: 'test-secret', allowPlaintextRead: true, onPlaintextRead });
+        const { args } = await runQuery(plugin, 'User', 'create', { data: { secret: 'encrypted' } });
+        const stored = (args!['data'] as Record<string, string>)['secret'];
+
+        const { output } = await runQuery(plugin, 'User', 'findMany', {}, [
+            { secret: stored, record: { legacy: true } },
+            { secret: 'legacy plaintext', record: null },
+        ]);
+        expect(output).toEqual([
+            { secret: 'encrypted', record: { legacy: true } },
+            { secret: 'legacy plaintext', record: null },
+        ]);
+        expect(onPlaintextRead.mock.calls).toEqual([
+            ['User', 'record'],
+            ['User', 'secret'],
+        ]);
+    });
+
+    it('encrypts remaining plaintext values on update', async () => {
+        const plugin = encryption({ key: 'test-secret', encryptPlaintextOnWrite: true });
+        const findUnique = vi.fn(async () => ({ secret: 'legacy plaintext', record: null, attachment: null, age: 42 }));
+        let proceededArgs: Args;
+        await plugin.onQuery!({
+            model: 'User',
+            operation: 'update',
+            args: { where: { id: '1' }, data: { email: 'a@b.com' } },
+            proceed: async (next: Args) => {
+                proceededArgs = next;
+                return null;
+            },
+            client: { schema, $unuse: () => ({ user: { findUnique } }) },
+        } as never);
+
+        expect(findUnique).toHaveBeenCalledWith({
+            where: { id: '1' },
+            select: {
+                secret: true,
+                nationalId: true,
+                record: true,
+                attachment: true,
+                notes: true,
+                ssn: true,
+                age: true,
+                ageEncrypted: true,
+                birthDate: true,
+                birthDateEncrypted: true,
+                salary: true,
+                salaryEncrypted: true,
+            },
+        });
+        const data = proceededArgs!['data'] as Record<string, string>;
+        expect(data['secret']).not.toBe('legacy plaintext');
+        // moved to the storage field
+        expect(data['age']).toBeNull();
+
+        const { output } = await runQuery(plugin, 'User', 'findFirst', {}, data);
+        expect(output).toMatchObject({ secret: 'legacy plaintext', age: 42 });
+    });
+
+    it('is not supported with custom encryption', () => {
+        expect(() =>
+            encryption({ encrypt: async (_m, _f, v) => v, decrypt: async (_m, _f, v) => v, allowPlaintextRead: true }),
+        ).toThrow('not supported with custom encryption');
+    });
+});
+
+describe('Associated data', () => {
+    const plugin = encryption({ key: 'test-secret', associatedData: 'row', onDecryptError: 'throw' });
+    const create = async (data: Record<string, unknown>) => {
+        const { args } = await runQuery(plugin, 'User', 'create', { data });
+        return args!['data'] as Record<string, string>;
+    };
+
+    it('binds values to the row when its id is known', async () => {
+        const stored = await create({ id: '1', secret: 's' });
+        expect(readEncryptionMeta(stored['secret']!).d).toBe('row');
+
+        const { output } = await runQuery(plugin, 'User', 'findFirst', {}, { id: '1', secret: stored['secret'] });
+        expect(output).toEqual({ id: '1', secret: 's' });
+    });
+
+    it('rejects values copied to another row or field', async () => {
+        const stored = await create({ id: '1', secret: 's' });
+
+        await expect(
+            runQuery(plugin, 'User', 'findFirst', {}, { id: '2', secret: stored['secret'] }),
+        ).rejects.toBeInstanceOf(DecryptionError);
+        await expect(
+            runQuery(plugin, 'User', 'findFirst', {}, { id: '1', email: stored['secret'] }),
+        ).rejects.toBeInstanceOf(DecryptionError);
+    });
+
+    it('binds values to the field until the id is known', async () => {
+        const stored = await create({ secret: 's' });
+        expect(readEncryptionMeta(stored['secret']!).d).toBe('field');
+
+        const { args } = await runQuery(plugin, 'User', 'update', { where: { id: '3' }, data: { secret: 't' } });
+        expect(readEncryptionMeta((args!['data'] as Record<string, string>)['secret']!).d).toBe('row');
+    });
+
+    it('selects the ids needed to decrypt and removes them from the result', async () => {
+        const stored = await create({ id: '1', secret: 's' });
+        const { args, output } = await runQuery(
+            plugin,
+            'User',
+            'findFirst',
+            { select: { secret: true } },
+            { id: '1', secret: stored['secret'] },
+        );
+
+        expect(args!['select']).toEqual({ secret: true, id: true });
+        expect(output).toEqual({ secret: 's' });
+    });
+
+    it('keeps deterministic fields searchable', async () => {
+        const stored = await create({ id: '1', nationalId: '123' });
+        const { args } = await runQuery(plugin, 'User', 'findUnique', { where: { nationalId: '123' } });
+        expect(args!['where']).toEqual({ nationalId: stored['nationalId'] });
+    });
+});
@@ -0,0 +1,262 @@
+import type { SchemaDef } from '@zenstackhq/orm/schema';
+import { describe, expect, it } from 'vitest';
+import { Decrypter } from '../src/decrypter.js';
+import { Encrypter } from '../src/encrypter.js';
+import { encryptExisting } from '../src/migrate.js';
+import { encryption } from '../src/plugin.js';
+import { reencrypt } from '../src/reencrypt.js';
+import { deriveKey, getKeyDigest, readEncryptionMeta } from '../src/utils.js';
+
+const schema = {
+    provider: { type: 'sqlite' },
+    plugins: {},
+    models: {
+        User: {
+            name: 'User',
+            idFields: ['id'],
+            uniqueFields: { id: { type: 'Int' } },
+            fields: {
+                id: { name: 'id', type: 'Int', id: true },
+                name: { name: 'name', type: 'String' },
+                ssn: { name: 'ssn', type: 'String', optional: true, attributes: [{ name: '@encrypted' }] },
+            },
+        },
+    },
+} as unknown as SchemaDef;
+
+const addressSchema = {
+    ...schema,
+    models: {
+        User: {
+            ...schema.models['User'],
+            fields: {
+                ...schema.models['User']!.fields,
+                address: { name: 'address', type: 'Address', optional: true },
+            },
+        },
+    },
+    typeDefs: {
+        Address: {
+            name: 'Address',
+            fields: {
+                street: { name: 'street', type: 'String', attributes: [{ name: '@encrypted' }] },
+                city: { name: 'city', type: 'String' },
+            },
+        },
+    },
+} as unknown as SchemaDef;
+
+type Row = Record<string, unknown>;
+
+/**
+ * Minimal in-memory stand-in for a ZenStack client, enough for reencrypt and encryptExisting
+ */
+function createClient(plugin: ReturnType<typeof encryption>, rows: Row[], clientSchema = schema) {
+    let transactions = 0;
+    const matches = (row: Row, where: Row) =>
+        Object.entries(where).every(([key, filter]) =>
+            typeof filter === 'object' && filter !== null
+                ? JSON.stringify(row[key]) === JSON.stringify((filter as Row)['equals'])
+                : row[key] === filter,
+        );
+    const raw = {
+        user: {
+            async findMany({ skip, take }: { skip: number; take: number }) {
+                return rows.slice(skip, skip + take).map((row) => ({ ...row }));
+            },
+            async updateMany({ where, data }: { where: Row; data: Row }) {
+                const matched = rows.filter((row) => matches(row, where));
+                matched.forEach((row) => Object.assign(row, data));
+                return { count: matched.length };
+            },
+        },
+        async $transaction<T>(fn: (tx: unknown) => Promise<T>) {
+            transactions++;
+            return fn(raw);
+        },
+    };
+    const client = { $schema: clientSchema, $options: { plugins: [plugin] }, $unuse: () => raw };
+    return { client: client as never, transactions: () => transactions };
+}
+
+describe('reencrypt', () => {
+    async function setup() {
+        const oldKey = await deriveKey('old-secret');
+        const newKey = await deriveKey('new-secret');
+        const rows: Row[] = [
+            { id: 1, name: 'a', ssn: await new Encrypter(oldKey).encrypt('111') },
+            { id: 2, name: 'b', ssn: await new Encrypter(newKey).encrypt('222') },
+            { id: 3, name: 'c', ssn: null },
+            { id: 4, name: 'd', ssn: await new Encrypter(oldKey).encrypt('444') },
+            { id: 5, name: 'e', ssn: 'not-encrypted' },
+        ];
+        const plugin = encryption({ key: 'new-secret', previousKeys: ['old-secret'] });
+        return {
+            rows,
+            plugin,
+            oldDigest: await getKeyDigest(oldKey),
+            newDigest: await getKeyDigest(newKey),
+            newDecrypter: new Decrypter([newKey]),
+        };
+    }
+
+    it('re-encrypts values under previous keys with the primary key', async () => {
+        const { rows, plugin, oldDigest, newDigest, newDecrypter } = await setup();
+        const { client, transactions } = createClient(plugin, rows);
+        const progress: number[] = [];
+
+        const result = await reencrypt(client, { batchSize: 2, onProgress: (p) => progress.push(p.scanned) });
+
+        expect(result).toMatchObject({ primaryKeyId: newDigest, scanned: 5, reencrypted: 2, failed: 1 });
+        expect(result.keys).toEqual({ [oldDigest]: 2, [newDigest]: 1 });
+        expect(progress).toEqual([2, 4, 5]);
+        expect(transactions()).toBe(2);
+
+        for (const row of rows.filter((r) => r['id'] === 1 || r['id'] === 4)) {
+            expect(readEncryptionMeta(row['ssn'] as string).k).toBe(newDigest);
+        }
+        expect(await newDecrypter.decrypt(rows[3]!['ssn'] as string)).toBe('444');
+    });
+
+    it('only counts in a dry run', async () => {
+        const { rows, plugin, oldDigest } = await setup();
+        const before = rows.map((row) => ({ ...row }));
+        const { client, transactions } = createClient(plugin, rows);
+
+        const result = await reencrypt(client, { dryRun: true });
+
+        expect(result.reencrypted).toBe(2);
+        expect(result.keys[oldDigest]).toBe(2);
+        expect(rows).toEqual(before);
+        expect(transactions()).toBe(0);
+    });
+
+    it('binds values to their rows when row binding is enabled', async () => {
+        const key = await deriveKey('test-secret');
+        const rows: Row[] = [{ id: 1, name: 'a', ssn: await new Encrypter(key).encrypt('111') }];
+        const plugin = encryption({ key: 'test-secret', associatedData: 'row' });
+        const { client } = createClient(plugin, rows);
+
+        expect(await reencrypt(client)).toMatchObject({ reencrypted: 1 });
+        expect(readEncryptionMeta(rows[0]!['ssn'] as string).d).toBe('row');
+        expect(await reencrypt(client)).toMatchObject({ reencrypted: 0 });
+    });
+
+    it('moves values to per-field keys derived with the configured KDF', async () => {
+        const legacyKey = await deriveKey('test-secret');
+        const rows: Row[] = [{ id: 1, name: 'a', ssn: await new Encrypter(legacyKey).encrypt('111') }];
+        const kdf = { algorithm: 'hkdf' as const, info: 'app' };
+        const plugin = encryption({ key: 'test-secret', kdf, perFieldKeys: true });
+        const { client } = createClient(plugin, rows);
+
+        expect(await reencrypt(client)).toMatchObject({ reencrypted: 1 });
+        const meta = readEncryptionMeta(rows[0]!['ssn'] as string);
+        expect(meta.k).toBe(await getKeyDigest(await deriveKey('test-secret', kdf)));
+        expect(meta.s).toBe('User.ssn');
+        expect(await reencrypt(client)).toMatchObject({ reencrypted: 0 });
+    });
+
+    it('re-encrypts fields selecting a named key with its current key', async () => {
+        const ssn = schema.models['User']!.fields['ssn']!;
+        const keyIdArg = { name: 'keyId', value: { kind: 'literal', value: 'pii' } };
+        const piiSchema = structuredClone(schema) as { models: Record<string, { fields: Record<string, unknown> }> };
+        piiSchema.models['User']!.fields['ssn'] = { ...ssn, attributes: [{ name: '@encrypted', args: [keyIdArg] }] };
+
+        const oldValue = await new Encrypter(await deriveKey('pii-old')).encrypt('111');
+        const rows: Row[] = [{ id: 1, name: 'a', ssn: oldValue }];
+        const keys = { pii: { key: 'pii-new', previousKeys: ['pii-old'] } };
+        const plugin = encryption({ key: 'default-secret', keys });
+        const { client } = createClient(plugin, rows, piiSchema as unknown as SchemaDef);
+
+        const result = await reencrypt(client);
+        const defaultDigest = await getKeyDigest(await deriveKey('default-secret'));
+        expect(result).toMatchObject({ primaryKeyId: defaultDigest, reencrypted: 1 });
+        expect(readEncryptionMeta(rows[0]!['ssn'] as string).k).toBe(await getKeyDigest(await deriveKey('pii-new')));
+        expect(await reencrypt(client)).toMatchObject({ reencrypted: 0 });
+    });
+
+    it('re-encrypts the values of fields typed with a type definition', async () => {
+        const { plugin, oldDigest, newDigest, newDecrypter } = await setup();
+        const oldKey = await deriveKey('old-secret');
+        const address = { street: await new Encrypter(oldKey).encrypt('1 Main St'), city: 'Springfield' };
+        const rows: Row[] = [{ id: 1, name: 'a', ssn: null, address }];
+        const { client } = createClient(plugin, rows, addressSchema);
+
+        const result = await reencrypt(client);
+        expect(result).toMatchObject({ reencrypted: 1, keys: { [oldDigest]: 1 } });
+        const stored = rows[0]!['address'] as Row;
+        expect(stored['city']).toBe('Springfield');
+        expect(readEncryptionMeta(stored['street'] as string).k).toBe(newDigest);
+        expect(await newDecrypter.decrypt(stored['street'] as string)).toBe('1 Main St');
+        expect(await reencrypt(client)).toMatchObject({ reencrypted: 0, keys: { [newDigest]: 1 } });
+    });
+
+    it('requires the encryption plugin and known models', async () => {
+        const { plugin } = await setup();
+        await expect(reencrypt({ $options: { plugins: [] } } as never)).rejects.toThrow('plugin installed');
+        await expect(reencrypt(createClient(plugin, []).client, { models: ['Nope'] })).rejects.toThrow(
+            'Unknown model "Nope"',
+        );
+    });
+});
+
+describe('encryptExisting', () => {
+    async function setup() {
+        const key = await deriveKey('test-secret');
+        const rows: Row[] = [
+            { id: 1, name: 'a', ssn: '111' },
+            { id: 2, name: 'b', ssn: await new Encrypter(key).encrypt('222') },
+            { id: 3, name: 'c', ssn: null },
+            { id: 4, name: 'd', ssn: '444' },
+        ];
+        return { rows, plugin: encryption({ key: 'test-secret' }), decrypter: new Decrypter([key]) };
+    }
+
+    it('encrypts plaintext values in place', async () => {
+        const { rows, plugin, decrypter } = await setup();
+        const encrypted = rows[1]!['ssn'];
+        const { client, transactions } = createClient(plugin, rows);
+
+        const result = await encryptExisting(client, 'User', 'ssn', { batchSize: 3 });
+
+        expect(result).toEqual({ scanned: 4, encrypted: 2 });
+        expect(transactions()).toBe(2);
+        expect(await decrypter.decrypt(rows[0]!['ssn'] as string)).toBe('111');
+        expect(await decrypter.decrypt(rows[3]!['ssn'] as string)).toBe('444');
+        expect(rows[1]!['ssn']).toBe(encrypted);
+        expect(rows[2]!['ssn']).toBeNull();
+    });
+
+    it('only counts in a dry run', async () => {
+        const { rows, plugin } = await setup();
+        const before = rows.map((row) => ({ ...row }));
+        const { client, transactions } = createClient(plugin, rows);
+
+        expect(await encryptExisting(client, 'User', 'ssn', { dryRun: true })).toEqual({ scanned: 4, encrypted: 2 });
+        expect(rows).toEqual(before);
+        expect(transactions()).toBe(0);
+    });
+
+    it('encrypts the plaintext values of fields typed with a type definition', async () => {
+        const { plugin, decrypter } = await setup();
+        const encrypted = await new Encrypter(await deriveKey('test-secret')).encrypt('2 Elm St');
+        const rows: Row[] = [
+            { id: 1, name: 'a', address: { street: '1 Main St', city: 'Springfield' } },
+            { id: 2, name: 'b', address: { street: encrypted } },
+        ];
+        const { client } = createClient(plugin, rows, addressSchema);
+
+        expect(await encryptExisting(client, 'User', 'address')).toEqual({ scanned: 2, encrypted: 1 });
+        const stored = rows[0]!['address'] as Row;
+        expect(stored['city']).toBe('Springfield');
+        expect(await decrypter.decrypt(stored['street'] as string)).toBe('1 Main St');
+        expect((rows[1]!['address'] as Row)['street']).toBe(encrypted);
+    });
+
+    it('rejects fields that are not encrypted', async () => {
+        const { plugin } = await setup();
+        await expect(encryptExisting(createClient(plugin, []).client, 'User', 'name')).rejects.toThrow(
+            'User.name is not an encrypted field',
+        );
+    });
+});
@@ -0,0 +1,189 @@
+import type { SchemaDef } from '@zenstackhq/orm/schema';
+import { describe, expect, it } from 'vitest';
+import { SchemaValidationError } from '../src/errors.js';
+import { encryption } from '../src/plugin.js';
+import { validateEncryptedSchema } from '../src/validation.js';
+
+const literal = (value: unknown) => ({ kind: 'literal', value });
+const encrypted = (args: Record<string, unknown> = {}) => [
+    { name: '@encrypted', args: Object.entries(args).map(([name, value]) => ({ name, value: literal(value) })) },
+];
+
+const validSchema = {
+    provider: { type: 'sqlite' },
+    plugins: {},
+    models: {
+        User: {
+            name: 'User',
+            idFields: ['id'],
+            uniqueFields: { id: { type: 'String' }, nationalId: { type: 'String' } },
+            attributes: [{ name: '@@index', args: [{ name: 'fields', value: { kind: 'array', items: [] } }] }],
+            fields: {
+                id: { name: 'id', type: 'String', id: true },
+                email: { name: 'email', type: 'String', attributes: encrypted({ searchable: true }) },
+                // blind indexes needn't be unique, for values that may repeat
+                emailBlindIndex: { name: 'emailBlindIndex', type: 'String', optional: true },
+                nationalId: {
+                    name: 'nationalId',
+                    type: 'String',
+                    unique: true,
+                    attributes: encrypted({ deterministic: true }),
+                },
+                notes: { name: 'notes', type: 'String', attributes: encrypted({ algorithm: 'XChaCha20-Poly1305' }) },
+                birthDate: {
+                    name: 'birthDate',
+                    type: 'DateTime',
+                    optional: true,
+                    attributes: encrypted({ storage: 'birthDateEncrypted' }),
+                },
+                birthDateEncrypted: { name: 'birthDateEncrypted', type: 'String', optional: true },
+            },
+        },
+    },
+    typeDefs: {
+        Address: {
+            name: 'Address',
+            fields: { street: { name: 'street', type: 'String', attributes: encrypted() } },
+        },
+    },
+} as unknown as SchemaDef;
+
+const invalidSchema = {
+    provider: { type: 'sqlite' },
+    plugins: {},
+    models: {
+        User: {
+            name: 'User',
+            idFields: ['id'],
+            uniqueFields: {
+                id: { type: 'String' },
+                name_phone: { name: { type: 'String' }, phone: { type: 'String' } },
+            },
+            attributes: [
+                {
+                    name: '@@index',
+                    args: [{ name: 'fields', value: { kind: 'array', items: [{ kind: 'field', field: 'code' }] } }],
+                },
+            ],
+            fields: {
+                id: { name: 'id', type: 'String', id: true, attributes: encrypted() },
+                age: { name: 'age', type: 'Int', attributes: encrypted() },
+                name: { name: 'name', type: 'String', attributes: encrypted() },
+                phone: { name: 'phone', type: 'String', attributes: encrypted({ deterministic: true }) },
+                code: { name: 'code', type: 'String', default: 'none', attributes: encrypted() },
+                email: { name: 'email', type: 'String', attributes: encrypted({ searchable: 'yes' }) },
+                notes: {
+                    name: 'notes',
+                    type: 'String',
+                    attributes: encrypted({ algorithm: 'ROT13', keyId: 'payments', color: 'red' }),
+                },
+                handle: {
+                    name: 'handle',
+                    type: 'String',
+                    attributes: encrypted({ deterministic: true, algorithm: 'ChaCha20-Poly1305' }),
+                },
+                tags: { name: 'tags', type: 'String', array: true, attributes: encrypted() },
+                contact: { name: 'contact', type: 'String', attributes: encrypted({ searchable: true }) },
+                score: {
+                    name: 'score',
+                    type: 'Float',
+                    attributes: encrypted({ storage: 'missing', deterministic: true }),
+                },
+                nickname: { name: 'nickname', type: 'String', attributes: encrypted({ storage: 'contact' }) },
+            },
+        },
+        Post: {
+            name: 'Post',
+            idFields: ['id'],
+            uniqueFields: { id: { type: 'String' } },
+            fields: {
+                id: { name: 'id', type: 'String', id: true },
+                authorId: { name: 'authorId', type: 'String', attributes: encrypted() },
+                author: {
+                    name: 'author',
+                    type: 'User',
+                    relation: { fields: ['authorId'], references: ['id'] },
+                },
+            },
+        },
+    },
+    typeDefs: {
+        Address: {
+            name: 'Address',
+            fields: { zip: { name: 'zip', type: 'String', attributes: encrypted({ searchable: true }) } },
+        },
+    },
+} as unknown as SchemaDef;
+
+describe('Schema validation', () => {
+    it('accepts a valid schema', () => {
+        expect(validateEncryptedSchema(validSchema)).toEqual([]);
+    });
+
+    it('lists every problem', () => {
+        expect(validateEncryptedSchema(invalidSchema)).toEqual([
+            "User.id: id fields can't be encrypted",
+            'User.age: @encrypted on Int fields requires a String or Bytes field to store the encrypted value, ' +
+                "e.g. @encrypted(storage: 'ageEncrypted')",
+            'User.name: unique constraints on encrypted fields require deterministic: true',
+            "User.code: encrypted fields can't have a @default, which would be stored unencrypted",
+            'User.email: searchable must be true or false',
+            'User.notes: unknown @encrypted parameter "color"',
+            'User.notes: Unknown encryption algorithm "ROT13"',
+            'User.notes: unknown key id "payments" (no named keys are configured)',
+            "User.handle: algorithm can't be combined with deterministic, which always uses AES-GCM",
+            "User.tags: list fields can't be encrypted",
+            'User.contact: searchable requires a String field "contactBlindIndex" to store its blind index',
+            'User.score: deterministic is not supported on fields with a storage field',
+            'User.score: storage requires a String or Bytes field "missing" to store the encrypted value',
+            'User.score: fields with a storage field must be optional, their own column is left empty',
+            "User.nickname: storage is only supported on fields whose columns can't hold encrypted values",
+            'User.code: indexes on encrypted fields require deterministic: true',
+            'Address.zip: searchable is not supported on fields of type definitions',
+            "Post.authorId: encrypted fields can't be relation keys (used by Post.author)",
+            "User.id: encrypted fields can't be relation keys (used by Post.author)",
+        ]);
+    });
+
+    it('accepts key ids and blind indexes the configuration provides', () => {
+        expect(validateEncryptedSchema(validSchema, { blindIndex: false })).toEqual([
+            'User.email: searchable requires a blindIndex function in the custom encryption config',
+        ]);
+        expect(validateEncryptedSchema(validSchema, { stableBlindIndex: false })).toEqual([
+            'User.email: searchable requires a blindIndexKey with a keySource, so lookups survive key rotation',
+        ]);
+        expect(validateEncryptedSchema(invalidSchema, { keyIds: ['payments'] })).not.toContainEqual(
+            expect.stringContaining('unknown key id'),
+        );
+        expect(validateEncryptedSchema(invalidSchema, { keyIds: ['pii'] })).toContain(
+            'User.notes: unknown key id "payments" (configured: pii)',
+        );
+    });
+
+    it('fails fast when the plugin is created with an invalid schema', () => {
+        expect(() => encryption({ key: 'secret', schema: validSchema })).not.toThrow();
+        expect(() => encryption({ key: 'secret', schema: invalidSchema })).toThrow(SchemaValidationError);
+        expect(() => encryption({ key: 'secret', schema: invalidSchema })).toThrow(
+            "Invalid use of @encrypted in the schema:\n  - User.id: id fields can't be encrypted\n",
+        );
+    });
+
+    it('validates the schema of the client on the first query otherwise', async () => {
+        const plugin = encryption({ key: 'secret' });
+        const query = (schema: SchemaDef) =>
+            plugin.onQuery!({
+                model: 'User',
+                operation: 'findMany',
+                args: {},
+                proceed: async () => [],
+                client: { schema },
+            } as never);
+
+        await expect(query(validSchema)).resolves.toEqual([]);
+        const error = await query(invalidSchema).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(SchemaValidationError);
+        expect((error as SchemaValidationError).problems).toHaveLength(19);
+        // the result is cached per schema
+        await expect(query(invalidSchema)).rejects.toBe(error);
+    });
+});
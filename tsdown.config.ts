@@ -3,6 +3,7 @@ import { defineConfig } from "tsdown"
 export default defineConfig({
     entry: {
         index: "src/index.ts",
+        bin: "src/bin.ts",
     },
     outDir: "dist",
     sourcemap: true,